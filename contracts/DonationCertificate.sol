@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+
+// Soulbound proof-of-contribution receipts, minted by ProjectEscrow for every donation
+contract DonationCertificate is ERC721, Ownable {
+    using Strings for uint256;
+    using Strings for address;
+
+    // Token counter for unique certificate IDs
+    uint256 private _tokenIdCounter;
+
+    // Struct to hold certificate details
+    struct Certificate {
+        uint256 projectId;
+        address donor;
+        address fundingToken; // address(0) for ETH
+        uint256 amount;
+        uint256 timestamp;
+    }
+
+    mapping(uint256 => Certificate) private certificates;
+
+    // Certificates never move, so each donor's list only grows
+    mapping(address => uint256[]) private certificatesByDonor;
+
+    // Events
+    event CertificateMinted(
+        uint256 indexed tokenId,
+        uint256 indexed projectId,
+        address indexed donor,
+        uint256 amount
+    );
+
+    constructor() ERC721("ImpactChain Donation Certificate", "IMPACT-DONOR") Ownable(msg.sender) {}
+
+    /**
+     * @dev Mints a certificate for a donation (owner only, i.e. ProjectEscrow)
+     * @param donor The donor receiving the certificate
+     * @param projectId The project that was funded
+     * @param fundingToken The donated currency, address(0) for ETH
+     * @param amount The donated amount in the funding token's units
+     */
+    function mintCertificate(
+        address donor,
+        uint256 projectId,
+        address fundingToken,
+        uint256 amount
+    ) external onlyOwner returns (uint256) {
+        _tokenIdCounter++;
+        uint256 tokenId = _tokenIdCounter;
+
+        certificates[tokenId] = Certificate({
+            projectId: projectId,
+            donor: donor,
+            fundingToken: fundingToken,
+            amount: amount,
+            timestamp: block.timestamp
+        });
+        certificatesByDonor[donor].push(tokenId);
+
+        // Plain _mint so donor contracts without an ERC721 receiver can still donate
+        _mint(donor, tokenId);
+
+        emit CertificateMinted(tokenId, projectId, donor, amount);
+
+        return tokenId;
+    }
+
+    /**
+     * @dev Block transfers; only minting is allowed
+     */
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        address from = _ownerOf(tokenId);
+        require(from == address(0), "Certificates are non-transferable");
+        return super._update(to, tokenId, auth);
+    }
+
+    /**
+     * @dev Returns base64-encoded ERC-721 JSON metadata with an on-chain SVG
+     * @param tokenId The certificate ID
+     */
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        Certificate memory certificate = certificates[tokenId];
+
+        string memory svg = string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="350" height="350" viewBox="0 0 350 350">',
+            '<rect width="350" height="350" rx="24" fill="#1e3a8a"/>',
+            '<text x="175" y="90" font-family="sans-serif" font-size="24" fill="#fff" text-anchor="middle">Donation Certificate</text>',
+            '<text x="175" y="170" font-family="sans-serif" font-size="18" fill="#dbeafe" text-anchor="middle">Project #',
+            certificate.projectId.toString(),
+            '</text><text x="175" y="290" font-family="sans-serif" font-size="14" fill="#dbeafe" text-anchor="middle">Certificate #',
+            tokenId.toString(),
+            "</text></svg>"
+        );
+
+        string memory json = string.concat(
+            '{"name":"Donation Certificate #', tokenId.toString(),
+            '","description":"Proof of contribution to ImpactChain project #', certificate.projectId.toString(),
+            '","image":"data:image/svg+xml;base64,', Base64.encode(bytes(svg)),
+            '","attributes":[',
+            '{"trait_type":"Project ID","value":', certificate.projectId.toString(), "},",
+            '{"trait_type":"Amount","value":"', certificate.amount.toString(), '"},',
+            '{"trait_type":"Funding Token","value":"', certificate.fundingToken.toHexString(), '"},',
+            '{"trait_type":"Timestamp","display_type":"date","value":', certificate.timestamp.toString(), "},",
+            '{"trait_type":"Donor","value":"', certificate.donor.toHexString(), '"}]}'
+        );
+
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    /**
+     * @dev Returns the total number of certificates minted
+     */
+    function totalSupply() public view returns (uint256) {
+        return _tokenIdCounter;
+    }
+
+    /**
+     * @dev Returns the details of a certificate
+     * @param tokenId The certificate ID
+     */
+    function getCertificate(uint256 tokenId) external view returns (Certificate memory) {
+        _requireOwned(tokenId);
+        return certificates[tokenId];
+    }
+
+    /**
+     * @dev Returns every certificate ID held by a donor
+     * @param donor The donor address
+     */
+    function getCertificatesByDonor(address donor) external view returns (uint256[] memory) {
+        return certificatesByDonor[donor];
+    }
+}
@@ -1,23 +1,37 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+
+contract ImpactToken is ERC721Enumerable, Ownable, ReentrancyGuard {
+    using Strings for uint256;
+    using Strings for address;
+    using Strings for string;
 
-contract ImpactToken is ERC721, Ownable, ReentrancyGuard {
     // Token counter for unique token IDs
     uint256 private _tokenIdCounter;
     
     // Mapping to store token metadata
     mapping(uint256 => TokenMetadata) public tokenMetadata;
     
+    // Reported outcome for one of the project's declared impact metrics
+    struct ImpactResult {
+        string name;    // e.g. "Trees planted"
+        string unit;    // e.g. "trees"
+        uint256 target; // Declared at project creation
+        uint256 actual; // Reported by the NGO
+    }
+
     // Struct to hold token metadata
     struct TokenMetadata {
         uint256 projectId;
         string projectName;
         string description;
-        uint256 impactValue;
+        ImpactResult[] results;
         string imageUri;
         uint256 timestamp;
         address recipient;
@@ -28,7 +42,7 @@ contract ImpactToken is ERC721, Ownable, ReentrancyGuard {
         uint256 indexed tokenId,
         uint256 indexed projectId,
         address indexed recipient,
-        uint256 impactValue
+        uint256 metricCount
     );
     
     constructor() ERC721("ImpactToken", "IMPACT") Ownable(msg.sender) {}
@@ -39,7 +53,7 @@ contract ImpactToken is ERC721, Ownable, ReentrancyGuard {
      * @param projectId The ID of the project this token represents
      * @param projectName The name of the project
      * @param description Description of the impact achieved
-     * @param impactValue The quantified impact value
+     * @param results The project's impact metrics with their reported values
      * @param imageUri URI to the token image/metadata
      */
     function mintImpactToken(
@@ -47,50 +61,106 @@ contract ImpactToken is ERC721, Ownable, ReentrancyGuard {
         uint256 projectId,
         string memory projectName,
         string memory description,
-        uint256 impactValue,
+        ImpactResult[] memory results,
         string memory imageUri
     ) external onlyOwner nonReentrant returns (uint256) {
         _tokenIdCounter++;
         uint256 tokenId = _tokenIdCounter;
         
         // Store metadata
-        tokenMetadata[tokenId] = TokenMetadata({
-            projectId: projectId,
-            projectName: projectName,
-            description: description,
-            impactValue: impactValue,
-            imageUri: imageUri,
-            timestamp: block.timestamp,
-            recipient: to
-        });
+        TokenMetadata storage metadata = tokenMetadata[tokenId];
+        metadata.projectId = projectId;
+        metadata.projectName = projectName;
+        metadata.description = description;
+        metadata.imageUri = imageUri;
+        metadata.timestamp = block.timestamp;
+        metadata.recipient = to;
+        for (uint256 i = 0; i < results.length; i++) {
+            metadata.results.push(results[i]);
+        }
         
         // Mint the token
         _safeMint(to, tokenId);
         
-        emit ImpactTokenMinted(tokenId, projectId, to, impactValue);
+        emit ImpactTokenMinted(tokenId, projectId, to, results.length);
         
         return tokenId;
     }
     
     /**
-     * @dev Returns the metadata URI for a given token
+     * @dev Returns base64-encoded ERC-721 JSON metadata for a given token.
+     * Tokens minted without an image URI get an on-chain SVG instead.
      * @param tokenId The token ID to get metadata for
      */
     function tokenURI(uint256 tokenId) public view override returns (string memory) {
         require(ownerOf(tokenId) != address(0), "Token does not exist");
         
         TokenMetadata memory metadata = tokenMetadata[tokenId];
-        
-        // Return the image URI as the token URI for now
-        // In a production environment, you'd return a JSON metadata URI
-        return metadata.imageUri;
+        string memory image = bytes(metadata.imageUri).length > 0
+            ? metadata.imageUri
+            : string.concat("data:image/svg+xml;base64,", Base64.encode(bytes(_renderSvg(tokenId, metadata))));
+
+        string memory json = string.concat(
+            '{"name":"', string.concat(metadata.projectName, " Impact #", tokenId.toString()).escapeJSON(),
+            '","description":"', metadata.description.escapeJSON(),
+            '","image":"', image.escapeJSON(),
+            '","attributes":[',
+            '{"trait_type":"Project ID","value":', metadata.projectId.toString(), "},",
+            _renderResultAttributes(metadata.results),
+            '{"trait_type":"Timestamp","display_type":"date","value":', metadata.timestamp.toString(), "},",
+            '{"trait_type":"Recipient","value":"', metadata.recipient.toHexString(), '"}],',
+            '"impact_results":[', _renderResults(metadata.results), "]}"
+        );
+
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    /**
+     * @dev Fallback certificate artwork. Only numeric fields are drawn, so nothing needs XML escaping.
+     */
+    function _renderSvg(uint256 tokenId, TokenMetadata memory metadata) private pure returns (string memory) {
+        return string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="350" height="350" viewBox="0 0 350 350">',
+            '<rect width="350" height="350" rx="24" fill="#0f766e"/>',
+            '<text x="175" y="90" font-family="sans-serif" font-size="28" fill="#fff" text-anchor="middle">ImpactChain</text>',
+            '<text x="175" y="160" font-family="sans-serif" font-size="18" fill="#ccfbf1" text-anchor="middle">Project #',
+            metadata.projectId.toString(),
+            '</text><text x="175" y="210" font-family="sans-serif" font-size="22" fill="#fff" text-anchor="middle">',
+            metadata.results.length.toString(),
+            " impact metrics",
+            '</text><text x="175" y="290" font-family="sans-serif" font-size="14" fill="#ccfbf1" text-anchor="middle">Token #',
+            tokenId.toString(),
+            "</text></svg>"
+        );
     }
     
     /**
-     * @dev Returns the total number of tokens minted
+     * @dev One numeric trait per impact metric, named "<name> (<unit>)"
+     */
+    function _renderResultAttributes(ImpactResult[] memory results) private pure returns (string memory attributes) {
+        for (uint256 i = 0; i < results.length; i++) {
+            attributes = string.concat(
+                attributes,
+                '{"trait_type":"', string.concat(results[i].name, " (", results[i].unit, ")").escapeJSON(),
+                '","value":', results[i].actual.toString(), "},"
+            );
+        }
+    }
+
+    /**
+     * @dev The full structured results, including targets
      */
-    function totalSupply() public view returns (uint256) {
-        return _tokenIdCounter;
+    function _renderResults(ImpactResult[] memory results) private pure returns (string memory json) {
+        for (uint256 i = 0; i < results.length; i++) {
+            json = string.concat(
+                json,
+                i == 0 ? "" : ",",
+                '{"name":"', results[i].name.escapeJSON(),
+                '","unit":"', results[i].unit.escapeJSON(),
+                '","target":', results[i].target.toString(),
+                ',"actual":', results[i].actual.toString(), "}"
+            );
+        }
     }
     
     /**
@@ -103,25 +173,53 @@ contract ImpactToken is ERC721, Ownable, ReentrancyGuard {
     }
     
     /**
-     * @dev Returns all tokens owned by an address
+     * @dev Returns all tokens owned by an address. Cost grows with the owner's balance only.
      * @param owner The address to query
      */
     function getTokensByOwner(address owner) external view returns (uint256[] memory) {
-        uint256 tokenCount = balanceOf(owner);
-        uint256[] memory tokens = new uint256[](tokenCount);
-        
-        uint256 index = 0;
-        for (uint256 i = 1; i <= _tokenIdCounter; i++) {
-            try this.ownerOf(i) returns (address tokenOwner) {
-                if (tokenOwner == owner) {
-                    tokens[index] = i;
-                    index++;
-                }
-            } catch {
-                // Token doesn't exist, continue
-            }
+        return getTokensByOwnerPage(owner, 0, balanceOf(owner));
+    }
+
+    /**
+     * @dev Returns a page of the tokens owned by an address
+     * @param owner The address to query
+     * @param offset Index of the first token in the owner's list
+     * @param limit Maximum number of tokens to return
+     */
+    function getTokensByOwnerPage(
+        address owner,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (uint256[] memory) {
+        uint256 balance = balanceOf(owner);
+        if (offset >= balance) {
+            return new uint256[](0);
+        }
+        uint256 end = offset + limit > balance ? balance : offset + limit;
+
+        uint256[] memory tokens = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            tokens[i - offset] = tokenOfOwnerByIndex(owner, i);
+        }
+        return tokens;
+    }
+
+    /**
+     * @dev Returns a page of all tokens in mint order
+     * @param offset Index of the first token
+     * @param limit Maximum number of tokens to return
+     */
+    function getTokensPage(uint256 offset, uint256 limit) external view returns (uint256[] memory) {
+        uint256 supply = totalSupply();
+        if (offset >= supply) {
+            return new uint256[](0);
+        }
+        uint256 end = offset + limit > supply ? supply : offset + limit;
+
+        uint256[] memory tokens = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            tokens[i - offset] = tokenByIndex(i);
         }
-        
         return tokens;
     }
 }
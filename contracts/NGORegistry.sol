@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+
+contract NGORegistry is AccessControl {
+    // Registrars review registrations and verify or suspend organisations
+    bytes32 public constant NGO_REGISTRAR_ROLE = keccak256("NGO_REGISTRAR_ROLE");
+
+    // An NGO can only receive project funds while Verified
+    enum NGOStatus {
+        Unregistered,
+        Pending,
+        Verified,
+        Suspended
+    }
+
+    // Struct to hold an organisation's profile
+    struct NGO {
+        string name;
+        bytes32 registrationNumberHash; // keccak256 of the official registration number
+        string metadataUri;             // Off-chain profile (logo, website, reports)
+        NGOStatus status;
+        uint256 registeredAt;
+        uint256 updatedAt;
+    }
+
+    mapping(address => NGO) private ngos;
+    address[] private ngoAddresses;
+
+    // Guards against the same registration number being claimed twice
+    mapping(bytes32 => address) public registrationNumberOwner;
+
+    // --- Events ---
+    event NGORegistered(address indexed ngo, string name, bytes32 registrationNumberHash, string metadataUri);
+    event NGOProfileUpdated(address indexed ngo, string metadataUri);
+    event NGOStatusChanged(address indexed ngo, NGOStatus status, address indexed registrar);
+
+    // The deployer starts as admin and registrar
+    constructor() {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(NGO_REGISTRAR_ROLE, msg.sender);
+    }
+
+    /**
+     * @dev Register the caller as an NGO. Starts Pending until a registrar verifies it.
+     * @param _name The organisation's legal name
+     * @param _registrationNumberHash keccak256 of the official registration number
+     * @param _metadataUri URI to the organisation's profile metadata
+     */
+    function registerNGO(
+        string memory _name,
+        bytes32 _registrationNumberHash,
+        string memory _metadataUri
+    ) external {
+        require(ngos[msg.sender].status == NGOStatus.Unregistered, "NGO already registered");
+        require(bytes(_name).length > 0, "Name is required");
+        require(_registrationNumberHash != bytes32(0), "Registration number is required");
+        require(
+            registrationNumberOwner[_registrationNumberHash] == address(0),
+            "Registration number already registered"
+        );
+
+        ngos[msg.sender] = NGO({
+            name: _name,
+            registrationNumberHash: _registrationNumberHash,
+            metadataUri: _metadataUri,
+            status: NGOStatus.Pending,
+            registeredAt: block.timestamp,
+            updatedAt: block.timestamp
+        });
+        ngoAddresses.push(msg.sender);
+        registrationNumberOwner[_registrationNumberHash] = msg.sender;
+
+        emit NGORegistered(msg.sender, _name, _registrationNumberHash, _metadataUri);
+        emit NGOStatusChanged(msg.sender, NGOStatus.Pending, msg.sender);
+    }
+
+    /**
+     * @dev Point the caller's profile at new metadata. Name and registration number are fixed.
+     * @param _metadataUri URI to the organisation's profile metadata
+     */
+    function updateNGOProfile(string memory _metadataUri) external {
+        NGO storage ngo = ngos[msg.sender];
+        require(ngo.status != NGOStatus.Unregistered, "NGO not registered");
+
+        ngo.metadataUri = _metadataUri;
+        ngo.updatedAt = block.timestamp;
+
+        emit NGOProfileUpdated(msg.sender, _metadataUri);
+    }
+
+    /**
+     * @dev Verify, suspend or reinstate an NGO (registrar only)
+     * @param _ngo The NGO address
+     * @param _status Pending, Verified or Suspended
+     */
+    function setNGOStatus(address _ngo, NGOStatus _status) external onlyRole(NGO_REGISTRAR_ROLE) {
+        NGO storage ngo = ngos[_ngo];
+        require(ngo.status != NGOStatus.Unregistered, "NGO not registered");
+        require(_status != NGOStatus.Unregistered, "Invalid status");
+        require(ngo.status != _status, "NGO already in that state");
+
+        ngo.status = _status;
+        ngo.updatedAt = block.timestamp;
+
+        emit NGOStatusChanged(_ngo, _status, msg.sender);
+    }
+
+    /**
+     * @dev Whether an NGO is verified and may receive project funds
+     */
+    function isActive(address _ngo) external view returns (bool) {
+        return ngos[_ngo].status == NGOStatus.Verified;
+    }
+
+    /**
+     * @dev Get an NGO's profile
+     */
+    function getNGO(address _ngo) external view returns (NGO memory) {
+        require(ngos[_ngo].status != NGOStatus.Unregistered, "NGO not registered");
+        return ngos[_ngo];
+    }
+
+    /**
+     * @dev Number of organisations that have ever registered
+     */
+    function getNGOCount() external view returns (uint256) {
+        return ngoAddresses.length;
+    }
+
+    /**
+     * @dev Page through registered NGO addresses in registration order
+     * @param _offset Index of the first NGO to return
+     * @param _limit Maximum number of NGOs to return
+     */
+    function getNGOAddresses(uint256 _offset, uint256 _limit) external view returns (address[] memory) {
+        uint256 total = ngoAddresses.length;
+        if (_offset >= total) {
+            return new address[](0);
+        }
+        uint256 end = _offset + _limit > total ? total : _offset + _limit;
+
+        address[] memory page = new address[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = ngoAddresses[i];
+        }
+        return page;
+    }
+}
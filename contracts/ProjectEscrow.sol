@@ -1,24 +1,55 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "./ImpactToken.sol";
+import "./NGORegistry.sol";
+import "./DonationCertificate.sol";
+
+contract ProjectEscrow is AccessControl, ReentrancyGuard, Pausable {
+    using SafeERC20 for IERC20;
+
+    // Roles. DEFAULT_ADMIN_ROLE manages every other role and the escrow settings.
+    bytes32 public constant VERIFIER_ROLE = keccak256("VERIFIER_ROLE");
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
 
-contract ProjectEscrow is Ownable, ReentrancyGuard {
     // Reference to the ImpactToken contract
     ImpactToken public impactToken;
+
+    // Projects can only pay out to NGOs verified in this registry
+    NGORegistry public ngoRegistry;
+
+    // Donors receive a soulbound certificate for every donation
+    DonationCertificate public donationCertificate;
     
-    // Constructor to initialize the contract with an owner and ImpactToken address
-    constructor(address _impactTokenAddress) Ownable(msg.sender) {
+    // Constructor to initialize the contract with an admin and its companion contract addresses
+    constructor(address _impactTokenAddress, address _ngoRegistryAddress, address _donationCertificateAddress) {
         impactToken = ImpactToken(_impactTokenAddress);
+        ngoRegistry = NGORegistry(_ngoRegistryAddress);
+        donationCertificate = DonationCertificate(_donationCertificateAddress);
+
+        // The deployer starts with every role and as the only verifier with a 1-of-1 quorum
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(VERIFIER_ROLE, msg.sender);
+        _grantRole(TREASURER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        defaultQuorum = 1;
+        emit QuorumUpdated(0, 1);
     }
 
     // An enum to represent the possible states of a milestone
     enum MilestoneState {
         Pending,
         Verified,
-        Paid
+        Paid,
+        Rejected, // Sent back to the NGO for rework
+        Disputed  // Challenged by a donor during the challenge window
     }
 
     // A struct to hold the details of a single milestone
@@ -26,13 +57,15 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
         string description;
         uint256 amount;
         MilestoneState state;
+        uint256 reviewRound; // Incremented on rejection so earlier approvals no longer count
+        uint256 challengeDeadline; // Donors may dispute a verification until this time
     }
 
     // A struct to encapsulate all data for a single project
     struct Project {
         uint256 projectId;
         address payable creator; // The NGO who created the project
-        address donor;         // The corporation who funded the project
+        address donor;         // The most recent donor (see contributions for the full ledger)
         uint256 totalAmount;
         uint256 fundsRaised;
         Milestone[] milestones; // An array to hold all milestones for the project
@@ -40,26 +73,127 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
         string projectName;
         string description;
         uint256 createdAt;
+        uint256 fundsReleased; // Total paid out to the NGO through milestones
+        bool isCancelled;
+        uint256 fundingDeadline; // Refunds open if the goal isn't met by this time
+        address fundingToken; // ERC-20 used for donations and payouts, or address(0) for ETH
+    }
+
+    // Proof of progress submitted by the NGO for a milestone
+    struct Evidence {
+        string uri;        // Where the evidence lives (IPFS, HTTPS, ...)
+        bytes32 contentHash; // Hash of the evidence content, if known
+        uint256 submittedAt;
+    }
+
+    // A verifier's decision on a milestone
+    struct Review {
+        address verifier;
+        bool approved;
+        string reason;
+        uint256 reviewedAt;
+    }
+
+    // A donor's challenge to a verified milestone and its outcome
+    struct Dispute {
+        address challenger;
+        string reason;
+        uint256 raisedAt;
+        bool resolved;
+        bool upheld; // True if the arbiter sided with the challenger
+        string resolution;
+    }
+
+    // A single entry in a project's funding history
+    struct Donation {
+        address donor;
+        uint256 amount;
+        uint256 timestamp;
+    }
+
+    // An outcome the project commits to, e.g. 500 "Trees planted" measured in "trees"
+    struct ImpactMetric {
+        string name;
+        string unit;
+        uint256 target;
     }
 
     // State variables to store and track projects
-    mapping(uint256 => Project) public projects;
+    mapping(uint256 => Project) private projects;
     uint256 public projectCounter;
+
+    // Per-project donor ledger
+    mapping(uint256 => mapping(address => uint256)) public contributions;
+    mapping(uint256 => address[]) private projectDonors;
+    mapping(uint256 => Donation[]) private projectDonations;
+    mapping(uint256 => ImpactMetric[]) private projectImpactMetrics;
+    mapping(uint256 => uint256[]) private reportedImpact;
+    mapping(uint256 => mapping(address => bool)) public refundClaimed;
+
+    // Circuit breakers. A frozen project is unfrozen or cancelled so donors can claim refunds.
+    string public pauseReason;
+    mapping(uint256 => bool) public projectFrozen;
+    mapping(uint256 => string) public freezeReason;
+
+    // Verifier registry. Global verifiers hold VERIFIER_ROLE; project ID 0 in events refers to them.
+    uint256 public globalVerifierCount;
+    mapping(uint256 => mapping(address => bool)) public projectVerifiers;
+    mapping(uint256 => uint256) public projectVerifierCount;
+
+    // Approvals required to verify a milestone; a project quorum of 0 falls back to the default
+    uint256 public defaultQuorum;
+    mapping(uint256 => uint256) public projectQuorum;
+
+    // projectId => milestoneIndex => verifier => review round the verifier approved in
+    mapping(uint256 => mapping(uint256 => mapping(address => uint256))) private approvalRounds;
+    // projectId => milestoneIndex => verifiers who approved in the current review round
+    mapping(uint256 => mapping(uint256 => address[])) private milestoneApprovers;
+
+    // How long donors have to dispute a verified milestone before it can be paid
+    uint256 public challengePeriod;
+    mapping(uint256 => mapping(uint256 => Dispute[])) private milestoneDisputes;
+
+    // projectId => milestoneIndex => evidence and review trails
+    mapping(uint256 => mapping(uint256 => Evidence[])) private milestoneEvidence;
+    mapping(uint256 => mapping(uint256 => Review[])) private milestoneReviews;
     
     // Events
     event ProjectCreated(uint256 indexed projectId, address indexed creator, uint256 totalAmount);
     event ProjectFunded(uint256 indexed projectId, address indexed donor, uint256 amount);
     event MilestoneVerified(uint256 indexed projectId, uint256 indexed milestoneIndex);
+    event MilestoneApproved(uint256 indexed projectId, uint256 indexed milestoneIndex, address indexed verifier, uint256 approvals, uint256 required);
+    event MilestoneApprovalRevoked(uint256 indexed projectId, uint256 indexed milestoneIndex, address indexed verifier, uint256 approvals, uint256 required);
+    event MilestoneEvidenceSubmitted(uint256 indexed projectId, uint256 indexed milestoneIndex, bytes32 contentHash, string uri);
+    event MilestoneReviewed(uint256 indexed projectId, uint256 indexed milestoneIndex, address indexed verifier, bool approved, string reason);
+    event MilestoneRejected(uint256 indexed projectId, uint256 indexed milestoneIndex, address indexed verifier, string reason);
+    event MilestoneReopened(uint256 indexed projectId, uint256 indexed milestoneIndex, uint256 reviewRound);
+    event MilestoneDisputed(uint256 indexed projectId, uint256 indexed milestoneIndex, address indexed challenger, string reason);
+    event DisputeResolved(uint256 indexed projectId, uint256 indexed milestoneIndex, bool upheld, string resolution);
+    event ChallengePeriodUpdated(uint256 period);
+    event VerifierUpdated(uint256 indexed projectId, address indexed verifier, bool active);
+    event QuorumUpdated(uint256 indexed projectId, uint256 quorum);
     event MilestonePaid(uint256 indexed projectId, uint256 indexed milestoneIndex, uint256 amount);
     event ProjectCompleted(uint256 indexed projectId);
     event ImpactTokenAwarded(uint256 indexed projectId, uint256 indexed tokenId, address indexed recipient);
+    event FundingDeadlineSet(uint256 indexed projectId, uint256 deadline);
+    event FundingTokenSet(uint256 indexed projectId, address indexed token);
+    event ProjectCancelled(uint256 indexed projectId, address indexed cancelledBy);
+    event RefundClaimed(uint256 indexed projectId, address indexed donor, uint256 amount);
+    event EscrowPaused(address indexed account, string reason);
+    event EscrowUnpaused(address indexed account);
+    event ProjectFrozen(uint256 indexed projectId, address indexed account, string reason);
+    event ProjectUnfrozen(uint256 indexed projectId, address indexed account);
+    event ImpactReported(uint256 indexed projectId, uint256[] actualValues);
 
     function createProject(
         address payable _ngo,
         uint256[] memory _milestoneAmounts,
         string[] memory _milestoneDescriptions,
         string memory _projectName,
-        string memory _description
+        string memory _description,
+        uint256 _fundingDeadline,
+        address _fundingToken,
+        ImpactMetric[] memory _impactMetrics
     ) external {
         // --- Validation ---
         require(
@@ -70,6 +204,9 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
             _milestoneAmounts.length > 0,
             "Project must have at least one milestone"
         );
+        require(_fundingDeadline > block.timestamp, "Funding deadline must be in the future");
+        require(ngoRegistry.isActive(_ngo), "NGO is not registered and active");
+        require(_impactMetrics.length > 0, "Project must declare at least one impact metric");
 
         // --- Project Creation ---
         projectCounter++;
@@ -89,7 +226,9 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
                 Milestone({
                     description: _milestoneDescriptions[i],
                     amount: _milestoneAmounts[i],
-                    state: MilestoneState.Pending
+                    state: MilestoneState.Pending,
+                    reviewRound: 1,
+                    challengeDeadline: 0
                 })
             );
         }
@@ -98,46 +237,358 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
         newProject.projectName = _projectName;
         newProject.description = _description;
         newProject.createdAt = block.timestamp;
+        newProject.fundingDeadline = _fundingDeadline;
+        newProject.fundingToken = _fundingToken;
+
+        for (uint256 i = 0; i < _impactMetrics.length; i++) {
+            require(bytes(_impactMetrics[i].name).length > 0, "Impact metric name is required");
+            projectImpactMetrics[newProjectId].push(_impactMetrics[i]);
+        }
         
         emit ProjectCreated(newProjectId, _ngo, totalProjectAmount);
+        emit FundingDeadlineSet(newProjectId, _fundingDeadline);
+        if (_fundingToken != address(0)) {
+            emit FundingTokenSet(newProjectId, _fundingToken);
+        }
     }
 
     function donate(uint256 _projectId) external payable nonReentrant {
-        // --- Get Project & Validate ---
-        Project storage project = projects[_projectId];
+        require(projects[_projectId].fundingToken == address(0), "Project only accepts token donations");
 
-        require(project.creator != address(0), "Project does not exist");
+        _recordDonation(_projectId, msg.value);
+    }
+
+    /**
+     * @dev Donate ERC-20 tokens to a project funded in that token (requires prior approval)
+     * @param _projectId The ID of the project
+     * @param _amount The amount of funding token to donate
+     */
+    function donateToken(uint256 _projectId, uint256 _amount) external nonReentrant {
+        _donateToken(_projectId, _amount);
+    }
+
+    /**
+     * @dev Donate ERC-20 tokens using an EIP-2612 permit instead of a separate approval
+     * @param _projectId The ID of the project
+     * @param _amount The amount of funding token to donate
+     * @param _deadline The permit deadline
+     * @param _v The permit signature v
+     * @param _r The permit signature r
+     * @param _s The permit signature s
+     */
+    function donateTokenWithPermit(
+        uint256 _projectId,
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external nonReentrant {
+        address token = projects[_projectId].fundingToken;
+        require(token != address(0), "Project only accepts ETH donations");
+
+        // A front-run permit leaves the allowance in place, so only the transfer must succeed
+        try IERC20Permit(token).permit(msg.sender, address(this), _amount, _deadline, _v, _r, _s) {} catch {}
+
+        _donateToken(_projectId, _amount);
+    }
+    
+    /**
+     * @dev Add or remove a verifier for a single project
+     * @param _projectId The ID of the project
+     * @param _verifier The verifier address
+     * @param _active Whether the address may approve the project's milestones
+     */
+    function setProjectVerifier(uint256 _projectId, address _verifier, bool _active) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _getProject(_projectId);
+        require(_verifier != address(0), "Invalid verifier address");
+        require(projectVerifiers[_projectId][_verifier] != _active, "Verifier already in that state");
+
+        projectVerifiers[_projectId][_verifier] = _active;
+        if (_active) {
+            projectVerifierCount[_projectId]++;
+        } else {
+            projectVerifierCount[_projectId]--;
+        }
+
+        emit VerifierUpdated(_projectId, _verifier, _active);
+    }
+
+    /**
+     * @dev Set the approvals required for projects without their own quorum
+     * @param _quorum Number of verifier approvals required
+     */
+    function setDefaultQuorum(uint256 _quorum) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_quorum > 0, "Quorum must be greater than 0");
+        require(_quorum <= globalVerifierCount, "Quorum exceeds verifier count");
+
+        defaultQuorum = _quorum;
+
+        emit QuorumUpdated(0, _quorum);
+    }
+
+    /**
+     * @dev Set the approvals required for one project's milestones
+     * @param _projectId The ID of the project
+     * @param _quorum Number of verifier approvals required, or 0 to use the default
+     */
+    function setProjectQuorum(uint256 _projectId, uint256 _quorum) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _getProject(_projectId);
         require(
-            project.fundsRaised < project.totalAmount,
-            "Project is already fully funded"
+            _quorum <= globalVerifierCount + projectVerifierCount[_projectId],
+            "Quorum exceeds verifier count"
         );
-        require(msg.value > 0, "Donation must be greater than zero");
+
+        projectQuorum[_projectId] = _quorum;
+
+        emit QuorumUpdated(_projectId, _quorum);
+    }
+
+    /**
+     * @dev Submit evidence that a milestone has been achieved (only the project's NGO)
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone
+     * @param _uri Where the evidence can be found
+     * @param _contentHash Hash of the evidence content, or zero if not available
+     */
+    function submitMilestoneEvidence(
+        uint256 _projectId,
+        uint256 _milestoneIndex,
+        string memory _uri,
+        bytes32 _contentHash
+    ) external {
+        Project storage project = _getProject(_projectId);
+        require(msg.sender == project.creator, "Only project creator can submit evidence");
+        require(_milestoneIndex < project.milestones.length, "Invalid milestone index");
+        require(bytes(_uri).length > 0 || _contentHash != bytes32(0), "Evidence must have a URI or hash");
+
+        Milestone storage milestone = project.milestones[_milestoneIndex];
         require(
-            project.fundsRaised + msg.value <= project.totalAmount,
-            "Donation exceeds the required amount"
+            milestone.state == MilestoneState.Pending || milestone.state == MilestoneState.Rejected,
+            "Milestone already processed"
         );
 
-        // --- Update State ---
-        project.fundsRaised += msg.value;
-        project.donor = msg.sender;
-        
-        emit ProjectFunded(_projectId, msg.sender, msg.value);
+        milestoneEvidence[_projectId][_milestoneIndex].push(
+            Evidence({uri: _uri, contentHash: _contentHash, submittedAt: block.timestamp})
+        );
+
+        emit MilestoneEvidenceSubmitted(_projectId, _milestoneIndex, _contentHash, _uri);
+
+        // Reworked evidence puts a rejected milestone back in front of the verifiers
+        if (milestone.state == MilestoneState.Rejected) {
+            milestone.state = MilestoneState.Pending;
+            emit MilestoneReopened(_projectId, _milestoneIndex, milestone.reviewRound);
+        }
     }
-    
+
+    /**
+     * @dev Approve a milestone without a reason; see approveMilestone
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone to verify
+     */
+    function verifyMilestone(uint256 _projectId, uint256 _milestoneIndex) external {
+        _approveMilestone(_projectId, _milestoneIndex, "");
+    }
+
     /**
-     * @dev Verify a milestone (only owner can verify)
+     * @dev Approve a milestone; it becomes Verified once the quorum is reached
      * @param _projectId The ID of the project
      * @param _milestoneIndex The index of the milestone to verify
+     * @param _reason Why the verifier is satisfied
      */
-    function verifyMilestone(uint256 _projectId, uint256 _milestoneIndex) external onlyOwner {
+    function approveMilestone(uint256 _projectId, uint256 _milestoneIndex, string memory _reason) external {
+        _approveMilestone(_projectId, _milestoneIndex, _reason);
+    }
+
+    /**
+     * @dev Reject a milestone and send it back to the NGO for rework.
+     * Any single verifier can reject; approvals gathered so far are discarded.
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone
+     * @param _reason Why the evidence is insufficient
+     */
+    function rejectMilestone(uint256 _projectId, uint256 _milestoneIndex, string memory _reason) external {
+        Project storage project = _getMilestoneProject(_projectId, _milestoneIndex);
+        require(isVerifier(_projectId, msg.sender), "Caller is not a verifier");
+        require(project.milestones[_milestoneIndex].state == MilestoneState.Pending, "Milestone already processed");
+        require(bytes(_reason).length > 0, "Rejection reason required");
+
+        _recordReview(_projectId, _milestoneIndex, false, _reason);
+        _sendBackForRework(_projectId, _milestoneIndex);
+
+        emit MilestoneRejected(_projectId, _milestoneIndex, msg.sender, _reason);
+    }
+
+    /**
+     * @dev Set how long donors can dispute a milestone after it is verified
+     * @param _period The challenge window in seconds
+     */
+    function setChallengePeriod(uint256 _period) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        challengePeriod = _period;
+
+        emit ChallengePeriodUpdated(_period);
+    }
+
+    /**
+     * @dev Challenge a verified milestone before it is paid (only donors to the project)
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone
+     * @param _reason Why the donor believes the verification is wrong
+     */
+    function raiseDispute(uint256 _projectId, uint256 _milestoneIndex, string memory _reason) external {
+        Project storage project = _getMilestoneProject(_projectId, _milestoneIndex);
+        require(contributions[_projectId][msg.sender] > 0, "Only donors can raise disputes");
+        require(bytes(_reason).length > 0, "Dispute reason required");
+
+        Milestone storage milestone = project.milestones[_milestoneIndex];
+        require(milestone.state == MilestoneState.Verified, "Milestone not verified");
+        require(block.timestamp < milestone.challengeDeadline, "Challenge window has closed");
+
+        milestone.state = MilestoneState.Disputed;
+        milestoneDisputes[_projectId][_milestoneIndex].push(
+            Dispute({
+                challenger: msg.sender,
+                reason: _reason,
+                raisedAt: block.timestamp,
+                resolved: false,
+                upheld: false,
+                resolution: ""
+            })
+        );
+
+        emit MilestoneDisputed(_projectId, _milestoneIndex, msg.sender, _reason);
+    }
+
+    /**
+     * @dev Arbitrate a disputed milestone. Upholding the dispute sends the milestone back
+     * for rework; dismissing it restores the verification and closes the challenge window.
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone
+     * @param _upheld Whether the challenger was right
+     * @param _resolution The arbiter's explanation
+     */
+    function resolveDispute(
+        uint256 _projectId,
+        uint256 _milestoneIndex,
+        bool _upheld,
+        string memory _resolution
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        Project storage project = _getMilestoneProject(_projectId, _milestoneIndex);
+
+        Milestone storage milestone = project.milestones[_milestoneIndex];
+        require(milestone.state == MilestoneState.Disputed, "Milestone not disputed");
+
+        Dispute[] storage disputes = milestoneDisputes[_projectId][_milestoneIndex];
+        Dispute storage dispute = disputes[disputes.length - 1];
+        dispute.resolved = true;
+        dispute.upheld = _upheld;
+        dispute.resolution = _resolution;
+
+        if (_upheld) {
+            _sendBackForRework(_projectId, _milestoneIndex);
+        } else {
+            milestone.state = MilestoneState.Verified;
+            milestone.challengeDeadline = block.timestamp;
+        }
+
+        emit DisputeResolved(_projectId, _milestoneIndex, _upheld, _resolution);
+    }
+
+    /**
+     * @dev Withdraw an approval from a milestone that is still Pending
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone
+     */
+    function revokeMilestoneApproval(uint256 _projectId, uint256 _milestoneIndex) external {
+        Project storage project = _getMilestoneProject(_projectId, _milestoneIndex);
+        require(project.milestones[_milestoneIndex].state == MilestoneState.Pending, "Milestone already processed");
+        require(hasApproved(_projectId, _milestoneIndex, msg.sender), "Milestone not approved by caller");
+
+        approvalRounds[_projectId][_milestoneIndex][msg.sender] = 0;
+        address[] storage approvers = milestoneApprovers[_projectId][_milestoneIndex];
+        for (uint256 i = 0; i < approvers.length; i++) {
+            if (approvers[i] == msg.sender) {
+                approvers[i] = approvers[approvers.length - 1];
+                approvers.pop();
+                break;
+            }
+        }
+
+        emit MilestoneApprovalRevoked(
+            _projectId,
+            _milestoneIndex,
+            msg.sender,
+            _countApprovals(_projectId, _milestoneIndex),
+            getQuorum(_projectId)
+        );
+    }
+
+    /**
+     * @dev Check whether a verifier has approved a milestone in its current review round
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone
+     * @param _verifier The verifier address
+     */
+    function hasApproved(uint256 _projectId, uint256 _milestoneIndex, address _verifier) public view returns (bool) {
         Project storage project = projects[_projectId];
-        require(project.creator != address(0), "Project does not exist");
         require(_milestoneIndex < project.milestones.length, "Invalid milestone index");
-        require(project.milestones[_milestoneIndex].state == MilestoneState.Pending, "Milestone already processed");
-        
-        project.milestones[_milestoneIndex].state = MilestoneState.Verified;
-        
-        emit MilestoneVerified(_projectId, _milestoneIndex);
+
+        return approvalRounds[_projectId][_milestoneIndex][_verifier] == project.milestones[_milestoneIndex].reviewRound;
+    }
+
+    /**
+     * @dev Get a milestone's challenge window and dispute history
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone
+     */
+    function getMilestoneDisputes(uint256 _projectId, uint256 _milestoneIndex) external view returns (
+        uint256 challengeDeadline,
+        Dispute[] memory disputes
+    ) {
+        Project storage project = _getMilestoneProject(_projectId, _milestoneIndex);
+
+        return (
+            project.milestones[_milestoneIndex].challengeDeadline,
+            milestoneDisputes[_projectId][_milestoneIndex]
+        );
+    }
+
+    /**
+     * @dev Check whether an address may approve a project's milestones
+     * @param _projectId The ID of the project
+     * @param _account The address to check
+     */
+    function isVerifier(uint256 _projectId, address _account) public view returns (bool) {
+        return hasRole(VERIFIER_ROLE, _account) || projectVerifiers[_projectId][_account];
+    }
+
+    /**
+     * @dev Get the number of approvals a project's milestones need.
+     * A project quorum is capped at the verifiers the project has left, since revoking
+     * VERIFIER_ROLE can't check every project's quorum.
+     * @param _projectId The ID of the project
+     */
+    function getQuorum(uint256 _projectId) public view returns (uint256) {
+        uint256 quorum = projectQuorum[_projectId];
+        if (quorum == 0) {
+            return defaultQuorum;
+        }
+        uint256 available = globalVerifierCount + projectVerifierCount[_projectId];
+        return quorum > available ? available : quorum;
+    }
+
+    /**
+     * @dev Get a milestone's approvals against the quorum it needs
+     * @param _projectId The ID of the project
+     * @param _milestoneIndex The index of the milestone
+     */
+    function getMilestoneApprovals(uint256 _projectId, uint256 _milestoneIndex) external view returns (
+        uint256 approvals,
+        uint256 required
+    ) {
+        _getMilestoneProject(_projectId, _milestoneIndex);
+
+        return (_countApprovals(_projectId, _milestoneIndex), getQuorum(_projectId));
     }
     
     /**
@@ -145,38 +596,69 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
      * @param _projectId The ID of the project
      * @param _milestoneIndex The index of the milestone to pay
      */
-    function payMilestone(uint256 _projectId, uint256 _milestoneIndex) external onlyOwner nonReentrant {
-        Project storage project = projects[_projectId];
-        require(project.creator != address(0), "Project does not exist");
+    function payMilestone(
+        uint256 _projectId,
+        uint256 _milestoneIndex
+    ) external onlyRole(TREASURER_ROLE) whenNotPaused nonReentrant {
+        Project storage project = _getProject(_projectId);
+        require(!projectFrozen[_projectId], "Project is frozen");
+        require(!project.isCancelled, "Project is cancelled");
+        require(!_isFundingExpired(project), "Project funding has expired");
         require(_milestoneIndex < project.milestones.length, "Invalid milestone index");
         require(project.milestones[_milestoneIndex].state == MilestoneState.Verified, "Milestone not verified");
+        require(
+            block.timestamp >= project.milestones[_milestoneIndex].challengeDeadline,
+            "Challenge window still open"
+        );
         
         uint256 amount = project.milestones[_milestoneIndex].amount;
-        require(address(this).balance >= amount, "Insufficient contract balance");
+        require(
+            project.fundsRaised - project.fundsReleased >= amount,
+            "Insufficient project funds"
+        );
+        if (project.fundingToken == address(0)) {
+            require(address(this).balance >= amount, "Insufficient contract balance");
+        }
         
         project.milestones[_milestoneIndex].state = MilestoneState.Paid;
+        project.fundsReleased += amount;
         
         // Transfer funds to NGO
-        (bool success, ) = project.creator.call{value: amount}("");
-        require(success, "Transfer failed");
+        _transferFunds(project, project.creator, amount);
         
         emit MilestonePaid(_projectId, _milestoneIndex, amount);
     }
     
     /**
-     * @dev Complete a project and mint ImpactToken
+     * @dev Report the achieved value of each declared impact metric (project creator only).
+     * Can be resubmitted until the project is completed.
+     * @param _projectId The ID of the project
+     * @param _actualValues One value per declared metric, in declaration order
+     */
+    function reportImpact(uint256 _projectId, uint256[] memory _actualValues) external {
+        Project storage project = _getProject(_projectId);
+        require(msg.sender == project.creator, "Only project creator can report impact");
+        require(!project.isComplete, "Project already completed");
+        require(_actualValues.length == projectImpactMetrics[_projectId].length, "Impact metric count mismatch");
+
+        reportedImpact[_projectId] = _actualValues;
+
+        emit ImpactReported(_projectId, _actualValues);
+    }
+
+    /**
+     * @dev Complete a project and mint an ImpactToken carrying the reported impact
      * @param _projectId The ID of the project to complete
-     * @param _impactValue The quantified impact value
      * @param _imageUri URI to the impact image/metadata
      */
     function completeProject(
         uint256 _projectId,
-        uint256 _impactValue,
         string memory _imageUri
-    ) external onlyOwner {
-        Project storage project = projects[_projectId];
-        require(project.creator != address(0), "Project does not exist");
+    ) external onlyRole(VERIFIER_ROLE) whenNotPaused {
+        Project storage project = _getProject(_projectId);
+        require(!projectFrozen[_projectId], "Project is frozen");
         require(!project.isComplete, "Project already completed");
+        require(!project.isCancelled, "Project is cancelled");
         
         // Check if all milestones are paid
         bool allMilestonesPaid = true;
@@ -187,8 +669,22 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
             }
         }
         require(allMilestonesPaid, "Not all milestones are paid");
+
+        ImpactMetric[] storage metrics = projectImpactMetrics[_projectId];
+        uint256[] storage actuals = reportedImpact[_projectId];
+        require(actuals.length == metrics.length, "Impact has not been reported");
         
         project.isComplete = true;
+
+        ImpactToken.ImpactResult[] memory results = new ImpactToken.ImpactResult[](metrics.length);
+        for (uint256 i = 0; i < metrics.length; i++) {
+            results[i] = ImpactToken.ImpactResult({
+                name: metrics[i].name,
+                unit: metrics[i].unit,
+                target: metrics[i].target,
+                actual: actuals[i]
+            });
+        }
         
         // Mint ImpactToken for the NGO
         uint256 tokenId = impactToken.mintImpactToken(
@@ -196,7 +692,7 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
             _projectId,
             project.projectName,
             project.description,
-            _impactValue,
+            results,
             _imageUri
         );
         
@@ -220,8 +716,7 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
         uint256 createdAt,
         uint256 milestoneCount
     ) {
-        Project storage project = projects[_projectId];
-        require(project.creator != address(0), "Project does not exist");
+        Project storage project = _getProject(_projectId);
         
         return (
             project.projectId,
@@ -245,16 +740,214 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
     function getMilestone(uint256 _projectId, uint256 _milestoneIndex) external view returns (
         string memory description,
         uint256 amount,
-        MilestoneState state
+        MilestoneState state,
+        Evidence[] memory evidence,
+        Review[] memory reviews
     ) {
-        Project storage project = projects[_projectId];
-        require(project.creator != address(0), "Project does not exist");
-        require(_milestoneIndex < project.milestones.length, "Invalid milestone index");
+        Project storage project = _getMilestoneProject(_projectId, _milestoneIndex);
         
         Milestone storage milestone = project.milestones[_milestoneIndex];
-        return (milestone.description, milestone.amount, milestone.state);
+        return (
+            milestone.description,
+            milestone.amount,
+            milestone.state,
+            milestoneEvidence[_projectId][_milestoneIndex],
+            milestoneReviews[_projectId][_milestoneIndex]
+        );
     }
     
+    /**
+     * @dev Cancel a project so donors can reclaim the unpaid part of their contributions
+     * @param _projectId The ID of the project to cancel
+     */
+    function cancelProject(uint256 _projectId) external {
+        Project storage project = _getProject(_projectId);
+        require(
+            hasRole(DEFAULT_ADMIN_ROLE, msg.sender) || msg.sender == project.creator,
+            "Only admin or project creator can cancel"
+        );
+        require(!project.isComplete, "Project already completed");
+        require(!project.isCancelled, "Project already cancelled");
+
+        project.isCancelled = true;
+
+        emit ProjectCancelled(_projectId, msg.sender);
+    }
+
+    /**
+     * @dev Halt donations, payouts and completions across every project (pauser only).
+     * Cancellation and refunds stay available.
+     * @param _reason Why the escrow was paused
+     */
+    function pause(string memory _reason) external onlyRole(PAUSER_ROLE) {
+        require(bytes(_reason).length > 0, "Reason is required");
+        pauseReason = _reason;
+        _pause();
+
+        emit EscrowPaused(msg.sender, _reason);
+    }
+
+    /**
+     * @dev Resume normal operation (pauser only)
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        delete pauseReason;
+        _unpause();
+
+        emit EscrowUnpaused(msg.sender);
+    }
+
+    /**
+     * @dev Halt donations, payouts and completion for a single project (pauser only)
+     * @param _projectId The ID of the project
+     * @param _reason Why the project was frozen
+     */
+    function freezeProject(uint256 _projectId, string memory _reason) external onlyRole(PAUSER_ROLE) {
+        Project storage project = _getProject(_projectId);
+        require(!project.isComplete, "Project already completed");
+        require(!projectFrozen[_projectId], "Project is frozen");
+        require(bytes(_reason).length > 0, "Reason is required");
+
+        projectFrozen[_projectId] = true;
+        freezeReason[_projectId] = _reason;
+
+        emit ProjectFrozen(_projectId, msg.sender, _reason);
+    }
+
+    /**
+     * @dev Lift a project freeze (pauser only)
+     * @param _projectId The ID of the project
+     */
+    function unfreezeProject(uint256 _projectId) external onlyRole(PAUSER_ROLE) {
+        require(projectFrozen[_projectId], "Project is not frozen");
+
+        projectFrozen[_projectId] = false;
+        delete freezeReason[_projectId];
+
+        emit ProjectUnfrozen(_projectId, msg.sender);
+    }
+
+    /**
+     * @dev Reclaim the caller's pro-rata share of the funds not yet paid out
+     * @param _projectId The ID of a cancelled or expired project
+     */
+    function claimRefund(uint256 _projectId) external nonReentrant {
+        Project storage project = _getProject(_projectId);
+        require(_isRefundable(project), "Refunds are not available");
+        require(!refundClaimed[_projectId][msg.sender], "Refund already claimed");
+
+        uint256 amount = _refundableAmount(project, contributions[_projectId][msg.sender]);
+        require(amount > 0, "Nothing to refund");
+
+        refundClaimed[_projectId][msg.sender] = true;
+
+        _transferFunds(project, msg.sender, amount);
+
+        emit RefundClaimed(_projectId, msg.sender, amount);
+    }
+
+    /**
+     * @dev Get a project's declared impact metrics and the values reported so far
+     * @param _projectId The ID of the project
+     * @return metrics The declared metrics
+     * @return actualValues The reported values, empty until the creator reports
+     */
+    function getImpactMetrics(uint256 _projectId) external view returns (
+        ImpactMetric[] memory metrics,
+        uint256[] memory actualValues
+    ) {
+        _getProject(_projectId);
+        return (projectImpactMetrics[_projectId], reportedImpact[_projectId]);
+    }
+
+    /**
+     * @dev Get the lifecycle fields not covered by getProject
+     * @param _projectId The ID of the project
+     */
+    function getProjectStatus(uint256 _projectId) external view returns (
+        uint256 fundingDeadline,
+        uint256 fundsReleased,
+        bool isCancelled,
+        bool isRefundable,
+        address fundingToken
+    ) {
+        Project storage project = _getProject(_projectId);
+
+        return (
+            project.fundingDeadline,
+            project.fundsReleased,
+            project.isCancelled,
+            _isRefundable(project),
+            project.fundingToken
+        );
+    }
+
+    /**
+     * @dev Get the amount a donor could reclaim if the project were cancelled now
+     * @param _projectId The ID of the project
+     * @param _donor The donor address
+     */
+    function getRefundableAmount(uint256 _projectId, address _donor) external view returns (uint256) {
+        Project storage project = _getProject(_projectId);
+        if (refundClaimed[_projectId][_donor]) {
+            return 0;
+        }
+        return _refundableAmount(project, contributions[_projectId][_donor]);
+    }
+
+    /**
+     * @dev Get a donor's total contribution to a project
+     * @param _projectId The ID of the project
+     * @param _donor The donor address
+     */
+    function getContribution(uint256 _projectId, address _donor) external view returns (uint256) {
+        return contributions[_projectId][_donor];
+    }
+
+    /**
+     * @dev Get every address that has donated to a project
+     * @param _projectId The ID of the project
+     */
+    function getDonors(uint256 _projectId) external view returns (address[] memory) {
+        return projectDonors[_projectId];
+    }
+
+    /**
+     * @dev Get the number of donations made to a project
+     * @param _projectId The ID of the project
+     */
+    function getDonationCount(uint256 _projectId) external view returns (uint256) {
+        return projectDonations[_projectId].length;
+    }
+
+    /**
+     * @dev Get a page of a project's funding history, oldest first
+     * @param _projectId The ID of the project
+     * @param _offset Index of the first donation to return
+     * @param _limit Maximum number of donations to return
+     */
+    function getDonations(
+        uint256 _projectId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (Donation[] memory) {
+        Donation[] storage history = projectDonations[_projectId];
+        if (_offset >= history.length) {
+            return new Donation[](0);
+        }
+
+        uint256 end = _offset + _limit;
+        if (end > history.length) {
+            end = history.length;
+        }
+
+        Donation[] memory page = new Donation[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = history[i];
+        }
+        return page;
+    }
+
     /**
      * @dev Get contract balance
      */
@@ -263,13 +956,191 @@ contract ProjectEscrow is Ownable, ReentrancyGuard {
     }
     
     /**
-     * @dev Emergency withdraw function (only owner)
+     * @dev Track the global verifier count alongside VERIFIER_ROLE grants
      */
-    function emergencyWithdraw() external onlyOwner {
-        uint256 balance = address(this).balance;
-        require(balance > 0, "No funds to withdraw");
+    function _grantRole(bytes32 _role, address _account) internal override returns (bool) {
+        bool granted = super._grantRole(_role, _account);
+        if (granted && _role == VERIFIER_ROLE) {
+            globalVerifierCount++;
+            emit VerifierUpdated(0, _account, true);
+        }
+        return granted;
+    }
+
+    /**
+     * @dev Track the global verifier count alongside VERIFIER_ROLE revocations.
+     * A revocation that would leave fewer verifiers than the default quorum is rejected,
+     * otherwise no milestone could reach it.
+     */
+    function _revokeRole(bytes32 _role, address _account) internal override returns (bool) {
+        bool revoked = super._revokeRole(_role, _account);
+        if (revoked && _role == VERIFIER_ROLE) {
+            require(globalVerifierCount > defaultQuorum, "Revoke would leave fewer verifiers than the quorum");
+            globalVerifierCount--;
+            emit VerifierUpdated(0, _account, false);
+        }
+        return revoked;
+    }
+
+    /**
+     * @dev Validate a donation and add it to the project's ledger
+     */
+    function _recordDonation(uint256 _projectId, uint256 _amount) private {
+        // --- Get Project & Validate ---
+        Project storage project = _getProject(_projectId);
+        _requireNotPaused();
+        require(!projectFrozen[_projectId], "Project is frozen");
+        require(!project.isCancelled, "Project is cancelled");
+        require(block.timestamp <= project.fundingDeadline, "Funding deadline has passed");
+        require(
+            project.fundsRaised < project.totalAmount,
+            "Project is already fully funded"
+        );
+        require(_amount > 0, "Donation must be greater than zero");
+        require(
+            project.fundsRaised + _amount <= project.totalAmount,
+            "Donation exceeds the required amount"
+        );
+
+        // --- Update State ---
+        project.fundsRaised += _amount;
+        project.donor = msg.sender;
+
+        if (contributions[_projectId][msg.sender] == 0) {
+            projectDonors[_projectId].push(msg.sender);
+        }
+        contributions[_projectId][msg.sender] += _amount;
+        projectDonations[_projectId].push(
+            Donation({donor: msg.sender, amount: _amount, timestamp: block.timestamp})
+        );
         
-        (bool success, ) = owner().call{value: balance}("");
-        require(success, "Transfer failed");
+        emit ProjectFunded(_projectId, msg.sender, _amount);
+
+        donationCertificate.mintCertificate(msg.sender, _projectId, project.fundingToken, _amount);
+    }
+
+    /**
+     * @dev Pull ERC-20 funding from the caller and record the amount that arrived, so a
+     * fee-on-transfer token can't credit more than the escrow holds
+     */
+    function _donateToken(uint256 _projectId, uint256 _amount) private {
+        IERC20 token = IERC20(projects[_projectId].fundingToken);
+        require(address(token) != address(0), "Project only accepts ETH donations");
+
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), _amount);
+        _recordDonation(_projectId, token.balanceOf(address(this)) - balanceBefore);
+    }
+
+    /**
+     * @dev Send project funds in the project's funding currency
+     */
+    function _transferFunds(Project storage project, address _to, uint256 _amount) private {
+        if (project.fundingToken == address(0)) {
+            (bool success, ) = payable(_to).call{value: _amount}("");
+            require(success, "Transfer failed");
+        } else {
+            IERC20(project.fundingToken).safeTransfer(_to, _amount);
+        }
+    }
+
+    /**
+     * @dev Record the caller's approval and verify the milestone once the quorum is reached
+     */
+    function _approveMilestone(uint256 _projectId, uint256 _milestoneIndex, string memory _reason) private {
+        Project storage project = _getMilestoneProject(_projectId, _milestoneIndex);
+        require(isVerifier(_projectId, msg.sender), "Caller is not a verifier");
+        require(!project.isCancelled, "Project is cancelled");
+        require(project.milestones[_milestoneIndex].state == MilestoneState.Pending, "Milestone already processed");
+        require(!hasApproved(_projectId, _milestoneIndex, msg.sender), "Milestone already approved");
+
+        Milestone storage milestone = project.milestones[_milestoneIndex];
+        approvalRounds[_projectId][_milestoneIndex][msg.sender] = milestone.reviewRound;
+        milestoneApprovers[_projectId][_milestoneIndex].push(msg.sender);
+        _recordReview(_projectId, _milestoneIndex, true, _reason);
+
+        uint256 approvals = _countApprovals(_projectId, _milestoneIndex);
+        uint256 required = getQuorum(_projectId);
+        emit MilestoneApproved(_projectId, _milestoneIndex, msg.sender, approvals, required);
+
+        if (approvals >= required) {
+            milestone.state = MilestoneState.Verified;
+            milestone.challengeDeadline = block.timestamp + challengePeriod;
+            emit MilestoneVerified(_projectId, _milestoneIndex);
+        }
+    }
+
+    /**
+     * @dev Look up a project, requiring that it exists
+     */
+    function _getProject(uint256 _projectId) private view returns (Project storage project) {
+        project = projects[_projectId];
+        require(project.creator != address(0), "Project does not exist");
+    }
+
+    /**
+     * @dev Look up a project, requiring that it and the milestone exist
+     */
+    function _getMilestoneProject(uint256 _projectId, uint256 _milestoneIndex) private view returns (Project storage project) {
+        project = _getProject(_projectId);
+        require(_milestoneIndex < project.milestones.length, "Invalid milestone index");
+    }
+
+    /**
+     * @dev Count the current round's approvals from addresses that are still verifiers
+     */
+    function _countApprovals(uint256 _projectId, uint256 _milestoneIndex) private view returns (uint256 count) {
+        address[] storage approvers = milestoneApprovers[_projectId][_milestoneIndex];
+        for (uint256 i = 0; i < approvers.length; i++) {
+            if (isVerifier(_projectId, approvers[i])) {
+                count++;
+            }
+        }
+    }
+
+    /**
+     * @dev Move a milestone to Rejected and start a fresh review round
+     */
+    function _sendBackForRework(uint256 _projectId, uint256 _milestoneIndex) private {
+        Milestone storage milestone = projects[_projectId].milestones[_milestoneIndex];
+        milestone.state = MilestoneState.Rejected;
+        delete milestoneApprovers[_projectId][_milestoneIndex];
+        milestone.reviewRound++;
+        milestone.challengeDeadline = 0;
+    }
+
+    /**
+     * @dev Append the caller's decision to a milestone's review trail
+     */
+    function _recordReview(uint256 _projectId, uint256 _milestoneIndex, bool _approved, string memory _reason) private {
+        milestoneReviews[_projectId][_milestoneIndex].push(
+            Review({verifier: msg.sender, approved: _approved, reason: _reason, reviewedAt: block.timestamp})
+        );
+
+        emit MilestoneReviewed(_projectId, _milestoneIndex, msg.sender, _approved, _reason);
+    }
+
+    /**
+     * @dev True once the deadline has passed without the project being fully funded
+     */
+    function _isFundingExpired(Project storage project) private view returns (bool) {
+        return block.timestamp > project.fundingDeadline && project.fundsRaised < project.totalAmount;
+    }
+
+    /**
+     * @dev Donors may reclaim funds from cancelled or expired projects
+     */
+    function _isRefundable(Project storage project) private view returns (bool) {
+        return !project.isComplete && (project.isCancelled || _isFundingExpired(project));
+    }
+
+    /**
+     * @dev Share of the unreleased funds owed to a contribution
+     */
+    function _refundableAmount(Project storage project, uint256 contribution) private view returns (uint256) {
+        if (project.fundsRaised == 0) {
+            return 0;
+        }
+        return (contribution * (project.fundsRaised - project.fundsReleased)) / project.fundsRaised;
     }
 }
\ No newline at end of file
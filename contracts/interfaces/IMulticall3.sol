@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @dev The part of Multicall3 (https://www.multicall3.com) the frontend batches reads through.
+ * Declared here only so the frontend gets generated bindings; Multicall3 itself is already
+ * deployed at 0xcA11bde05977b3631167028862bE2a173976CA11 on most chains.
+ */
+interface IMulticall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData);
+}
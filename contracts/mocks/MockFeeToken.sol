@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @dev Fee-on-transfer token for tests: burns 1% of every transfer between accounts
+ */
+contract MockFeeToken is ERC20 {
+    constructor() ERC20("Fee Token", "FEE") {}
+
+    /**
+     * @dev Mint tokens to any address
+     * @param to The address to mint to
+     * @param amount The amount to mint
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from != address(0) && to != address(0)) {
+            uint256 fee = value / 100;
+            super._update(from, address(0), fee);
+            value -= fee;
+        }
+        super._update(from, to, value);
+    }
+}
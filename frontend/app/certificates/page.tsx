@@ -0,0 +1,5 @@
+import DonorCertificates from '../../components/DonorCertificates';
+
+export default function CertificatesPage() {
+  return <DonorCertificates />;
+}
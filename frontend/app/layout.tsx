@@ -2,10 +2,15 @@ import type { Metadata, Viewport } from 'next'
 import { Inter } from 'next/font/google'
 import './globals.css'
 import { Providers } from './providers'
+import NetworkBanner from '../components/NetworkBanner'
+import PausedBanner from '../components/PausedBanner'
+import PendingTransactions from '../components/PendingTransactions'
 
 const inter = Inter({ subsets: ['latin'] })
 
 export const metadata: Metadata = {
+  // Resolves the relative OpenGraph URLs set by pages
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'),
   title: 'ImpactChain - Blockchain Impact Measurement',
   description: 'Transparent impact measurement for NGOs using blockchain technology',
   keywords: ['blockchain', 'impact measurement', 'NGO', 'donation', 'transparency'],
@@ -26,7 +31,10 @@ export default function RootLayout({
     <html lang="en" suppressHydrationWarning>
       <body className={inter.className} suppressHydrationWarning>
         <Providers>
+          <NetworkBanner />
+          <PausedBanner />
           {children}
+          <PendingTransactions />
         </Providers>
       </body>
     </html>
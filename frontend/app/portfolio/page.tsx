@@ -0,0 +1,5 @@
+import DonorPortfolio from '../../components/DonorPortfolio';
+
+export default function PortfolioPage() {
+  return <DonorPortfolio />;
+}
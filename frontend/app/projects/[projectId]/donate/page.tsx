@@ -1,5 +1,25 @@
-import DonationPage from '../../../components/DonationPage';
+import type { Metadata } from 'next';
+import DonationPage from '../../../../components/DonationPage';
+import { getProject, projectMetadata } from '../../data';
 
-export default function ProjectDonationPage() {
-  return <DonationPage />;
-}
\ No newline at end of file
+export const dynamic = 'force-dynamic';
+
+interface ProjectDonationPageProps {
+  params: { projectId: string };
+}
+
+export async function generateMetadata({ params }: ProjectDonationPageProps): Promise<Metadata> {
+  const snapshot = await getProject(Number(params.projectId)).catch(() => null);
+  return snapshot
+    ? projectMetadata(snapshot, `/projects/${params.projectId}/donate`)
+    : { title: 'Donate | ImpactChain' };
+}
+
+export default async function ProjectDonationPage({ params }: ProjectDonationPageProps) {
+  // If the RPC is down the page still renders and loads on the client
+  const snapshot = await getProject(Number(params.projectId)).catch((err) => {
+    console.error('Error loading project:', err);
+    return null;
+  });
+  return <DonationPage initial={snapshot ?? undefined} />;
+}
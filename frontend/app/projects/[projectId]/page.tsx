@@ -0,0 +1,38 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ProjectOverview from '../../../components/ProjectOverview';
+import { getNGO, getProject, getProjectHistory, projectMetadata } from '../data';
+
+export const dynamic = 'force-dynamic';
+
+interface ProjectPageProps {
+  params: { projectId: string };
+}
+
+export async function generateMetadata({ params }: ProjectPageProps): Promise<Metadata> {
+  const snapshot = await getProject(Number(params.projectId)).catch(() => null);
+  return snapshot ? projectMetadata(snapshot, `/projects/${params.projectId}`) : { title: 'Project | ImpactChain' };
+}
+
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const projectId = Number(params.projectId);
+  // If the RPC is down the page still renders and loads on the client
+  const snapshot = await getProject(projectId).catch((err) => {
+    console.error('Error loading project:', err);
+    return undefined;
+  });
+  if (snapshot === null) notFound();
+  if (!snapshot) return <ProjectOverview />;
+  const [history, ngo] = await Promise.all([
+    // Without history the page still renders and loads it on the client
+    getProjectHistory(projectId).catch((err) => {
+      console.error('Error loading project history:', err);
+      return undefined;
+    }),
+    getNGO(snapshot.project.creator).catch((err) => {
+      console.error('Error loading NGO:', err);
+      return undefined;
+    }),
+  ]);
+  return <ProjectOverview initial={snapshot} initialHistory={history} ngo={ngo} />;
+}
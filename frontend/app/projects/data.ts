@@ -0,0 +1,83 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import { formatUnits } from 'viem'
+import { contractConfig } from '../../config/contracts'
+import { type DeploymentManifest, parseDeployments } from '../../config/deployments'
+import type { ListedProject, NGOProfile, ProjectHistory } from '../../services/contractService'
+import { type ProjectSnapshot, createReadOnlyService } from '../../services/readOnlyService'
+
+// Server-side reads for the public project pages, cached for the length of a request
+
+// The manifest is a file in public/ unless NEXT_PUBLIC_DEPLOYMENTS_URL points elsewhere
+async function loadDeployments(): Promise<DeploymentManifest> {
+  const url = contractConfig.deploymentsUrl
+  if (/^https?:\/\//.test(url)) {
+    const res = await fetch(url, { cache: 'no-store' })
+    if (!res.ok) throw new Error(`Failed to load deployments: ${res.status}`)
+    return parseDeployments(await res.json())
+  }
+  return parseDeployments(JSON.parse(await readFile(path.join(process.cwd(), 'public', url), 'utf8')))
+}
+
+const getContractService = cache(async () => {
+  const { chainId } = contractConfig.network
+  const deployment = (await loadDeployments()).deployments[chainId]
+  if (!deployment) throw new Error(`No deployment for chain ${chainId}`)
+  return createReadOnlyService(deployment)
+})
+
+export const getProjects = cache(async (): Promise<{ projects: ListedProject[]; ngos: NGOProfile[] }> => {
+  const service = await getContractService()
+  const [projects, ngos] = await Promise.all([
+    service.getProjectsPage(0, await service.getProjectCount()),
+    service.getNGOs(),
+  ])
+  return { projects, ngos }
+})
+
+// null when there is no project with this id
+export const getProject = cache(async (projectId: number): Promise<ProjectSnapshot | null> => {
+  if (!Number.isInteger(projectId) || projectId < 1) return null
+  const service = await getContractService()
+  if (projectId > (await service.getProjectCount())) return null
+
+  const [[project], status] = await Promise.all([
+    service.getProjectsPage(projectId - 1, 1),
+    service.getProjectStatus(projectId),
+  ])
+  if (!project) return null
+  return { project, status, fundingToken: await service.getTokenInfo(status.fundingToken) }
+})
+
+export const getProjectHistory = cache(async (projectId: number): Promise<ProjectHistory> => {
+  return await (await getContractService()).getProjectHistory(projectId)
+})
+
+export const getNGO = cache(async (address: string): Promise<NGOProfile | null> => {
+  return await (await getContractService()).getNGO(address)
+})
+
+// Title, description and OpenGraph card for a project's shareable pages
+export function projectMetadata({ project, fundingToken }: ProjectSnapshot, url: string): Metadata {
+  const raised = formatUnits(project.fundsRaised, fundingToken.decimals)
+  const goal = formatUnits(project.totalAmount, fundingToken.decimals)
+  const description = `${project.description} · ${raised} of ${goal} ${fundingToken.symbol} raised`
+  return {
+    title: `${project.projectName} | ImpactChain`,
+    description,
+    openGraph: {
+      type: 'website',
+      siteName: 'ImpactChain',
+      title: project.projectName,
+      description,
+      url,
+    },
+    twitter: {
+      card: 'summary',
+      title: project.projectName,
+      description,
+    },
+  }
+}
@@ -1,5 +1,25 @@
+import type { Metadata } from 'next';
 import NGOdiscovery from '../../components/NGOdiscovery';
+import { getProjects } from './data';
 
-export default function ProjectsPage() {
-  return <NGOdiscovery />;
-}
\ No newline at end of file
+// Read from the chain on every request
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Projects | ImpactChain',
+  description: 'Browse NGO projects and fund them milestone by milestone.',
+  openGraph: {
+    title: 'ImpactChain Projects',
+    description: 'Browse NGO projects and fund them milestone by milestone.',
+    url: '/projects',
+  },
+};
+
+export default async function ProjectsPage() {
+  // If the RPC is down the page still renders and loads on the client
+  const initial = await getProjects().catch((err) => {
+    console.error('Error loading projects:', err);
+    return null;
+  });
+  return <NGOdiscovery initialProjects={initial?.projects} initialNgos={initial?.ngos} />;
+}
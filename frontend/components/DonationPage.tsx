@@ -1,9 +1,15 @@
 'use client'
 
 import React, { useState, useMemo } from 'react';
+import Link from 'next/link';
 import { useParams } from 'next/navigation';
-import { formatEther } from 'viem';
+import { formatUnits } from 'viem';
 import { useWeb3 } from '../contexts/web3Context';
+import { useProject } from '../hooks/useProject';
+import { useTransactions } from '../hooks/useTransactions';
+import type { FundingToken } from '../services/contractService';
+import type { ProjectSnapshot } from '../services/readOnlyService';
+import { decodeTransactionError } from '../services/transactionManager';
 
 interface Project {
   projectId: bigint;
@@ -17,32 +23,66 @@ interface Project {
   createdAt: bigint;
 }
 
-export default function DonationPage() {
+// initial is the server-rendered project, so the page shows without a wallet
+export default function DonationPage({ initial }: { initial?: ProjectSnapshot }) {
   const params = useParams();
   const projectId = Number(params?.projectId);
   const [amount, setAmount] = useState('');
   const [error, setError] = useState('');
-  const [txState, setTxState] = useState<'idle' | 'confirm' | 'mining' | 'success' | 'error'>('idle');
-  const { contractService } = useWeb3();
+  const [donated, setDonated] = useState(false);
+  const { contractService, readService, address, isConnected, connectWallet } = useWeb3();
 
-  // Fetch project details via service
-  const [project, setProject] = React.useState<any>(null);
-  const [isProjectLoading, setIsProjectLoading] = React.useState(true);
+  // Donations and refunds for this project that are still in flight, including
+  // ones sent before a reload
+  const { pending } = useTransactions();
+  const pendingDonation = pending.find(
+    (tx) => tx.projectId === projectId && (tx.action === 'donate' || tx.action === 'approveToken')
+  );
+  const pendingRefund = pending.find((tx) => tx.projectId === projectId && tx.action === 'claimRefund');
+
+  // Project and status stay current as donations and refunds land
+  const { project, status, isLoading: isProjectLoading, error: loadError, refresh } = useProject(projectId, initial);
+  const [fundingToken, setFundingToken] = React.useState<FundingToken>(
+    initial?.fundingToken ?? {
+      address: '',
+      symbol: 'ETH',
+      decimals: 18,
+      isNative: true,
+    }
+  );
+  const [refundableAmount, setRefundableAmount] = React.useState<bigint>(BigInt(0));
+  const [refundClaimed, setRefundClaimed] = React.useState(false);
   React.useEffect(() => {
     const load = async () => {
       try {
-        if (!contractService) return;
-        setIsProjectLoading(true);
-        const p = await contractService.getProjectDetails(projectId);
-        setProject(p);
+        if (!readService || !status) return;
+        setFundingToken(await readService.getTokenInfo(status.fundingToken));
+        if (status.isRefundable && address) {
+          setRefundableAmount(await readService.getRefundableAmount(projectId, address));
+        }
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load project');
-      } finally {
-        setIsProjectLoading(false);
       }
     };
     load();
-  }, [contractService, projectId]);
+  }, [readService, projectId, address, status]);
+
+  const handleClaimRefund = async () => {
+    try {
+      setError('');
+      if (!contractService) {
+        setError('Wallet not connected');
+        return;
+      }
+      await contractService.claimRefund(projectId);
+      setRefundableAmount(BigInt(0));
+      setRefundClaimed(true);
+      await refresh();
+    } catch (err) {
+      console.error('Error claiming refund:', err);
+      setError(decodeTransactionError(err).message);
+    }
+  };
 
   const handleDonate = async () => {
     try {
@@ -56,22 +96,22 @@ export default function DonationPage() {
         setError('Wallet not connected');
         return;
       }
-      setTxState('confirm');
-      setTxState('mining');
+      setDonated(false);
       await contractService.donateToProject(projectId, amount);
-      setTxState('success');
+      setDonated(true);
+      setAmount('');
+      await refresh();
     } catch (err) {
       console.error('Error donating:', err);
-      setError('Transaction failed. Please try again.');
-      setTxState('error');
+      setError(decodeTransactionError(err).message);
     }
   };
 
   const getTransactionState = () => {
-    if (txState === 'confirm') return 'Please confirm the transaction in your wallet...';
-    if (txState === 'mining') return 'Processing transaction...';
-    if (txState === 'success') return 'Donation successful!';
-    return '';
+    if (!pendingDonation) return '';
+    if (pendingDonation.status === 'confirming') return 'Please confirm the transaction in your wallet...';
+    if (pendingDonation.action === 'approveToken') return `Approving ${fundingToken.symbol}...`;
+    return 'Processing transaction...';
   };
 
   if (isProjectLoading) {
@@ -85,15 +125,19 @@ export default function DonationPage() {
   if (!project) {
     return (
       <div className="container mx-auto px-4 py-8">
-        <div className="text-center text-red-500">Project not found</div>
+        <div className="text-center text-red-500">{loadError || 'Project not found'}</div>
       </div>
     );
   }
 
   const typedProject = project as unknown as Project;
+  const formatAmount = (value: bigint) => formatUnits(value, fundingToken.decimals);
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <Link href={`/projects/${projectId}`} className="inline-block mb-4 text-sm text-blue-600 hover:underline">
+        ← Back to project
+      </Link>
       <div className="bg-white rounded-lg shadow-lg p-8">
         <h1 className="text-3xl font-bold mb-6">{typedProject.projectName}</h1>
         <p className="text-gray-600 mb-6">{typedProject.description}</p>
@@ -108,14 +152,58 @@ export default function DonationPage() {
             ></div>
           </div>
           <div className="flex justify-between mt-2 text-sm text-gray-600">
-            <span>{formatEther(typedProject.fundsRaised)} ETH raised</span>
-            <span>{formatEther(typedProject.totalAmount)} ETH goal</span>
+            <span>{formatAmount(typedProject.fundsRaised)} {fundingToken.symbol} raised</span>
+            <span>{formatAmount(typedProject.totalAmount)} {fundingToken.symbol} goal</span>
           </div>
+          {status && (
+            <p className="mt-2 text-sm text-gray-500">
+              Funding deadline: {new Date(Number(status.fundingDeadline) * 1000).toLocaleString()}
+            </p>
+          )}
         </div>
 
+        {status?.isRefundable ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            <h2 className="text-lg font-semibold text-yellow-800 mb-1">Refund available</h2>
+            <p className="text-sm text-yellow-800 mb-4">
+              {status.isCancelled
+                ? 'This project was cancelled.'
+                : 'This project did not reach its goal before the funding deadline.'}{' '}
+              Donors can reclaim their share of the funds that were not paid out.
+            </p>
+            {error && (
+              <div className="mb-4 text-red-500 text-sm">{error}</div>
+            )}
+            {refundClaimed ? (
+              <div className="text-center text-green-600">Refund claimed.</div>
+            ) : refundableAmount > BigInt(0) ? (
+              <button
+                onClick={handleClaimRefund}
+                disabled={!!pendingRefund}
+                className="w-full bg-yellow-500 text-white py-3 px-4 rounded-md hover:bg-yellow-600 transition duration-200 disabled:bg-gray-400"
+              >
+                {pendingRefund
+                  ? 'Processing refund...'
+                  : `Claim ${formatAmount(refundableAmount)} ${fundingToken.symbol} refund`}
+              </button>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {address ? 'You have no refund to claim for this project.' : 'Connect your wallet to check your refund.'}
+              </p>
+            )}
+          </div>
+        ) : status?.isFrozen ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <h2 className="text-lg font-semibold text-red-800 mb-1">Project frozen</h2>
+            <p className="text-sm text-red-800">
+              Donations to this project are on hold.{status.freezeReason && ` Reason: ${status.freezeReason}`}
+            </p>
+          </div>
+        ) : (
+        <>
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Donation Amount (ETH)
+            Donation Amount ({fundingToken.symbol})
           </label>
           <input
             type="number"
@@ -131,12 +219,20 @@ export default function DonationPage() {
           <div className="mb-4 text-red-500 text-sm">{error}</div>
         )}
 
+        {!isConnected ? (
+          <button
+            onClick={connectWallet}
+            className="w-full bg-blue-500 text-white py-3 px-4 rounded-md hover:bg-blue-600 transition duration-200"
+          >
+            Connect Wallet to Donate
+          </button>
+        ) : (
         <button
           onClick={handleDonate}
-          disabled={txState === 'confirm' || txState === 'mining'}
+          disabled={!!pendingDonation}
           className="w-full bg-blue-500 text-white py-3 px-4 rounded-md hover:bg-blue-600 transition duration-200 disabled:bg-gray-400"
         >
-          {txState === 'confirm' || txState === 'mining' ? (
+          {pendingDonation ? (
             <div className="flex items-center justify-center">
               <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white mr-2"></div>
               {getTransactionState()}
@@ -145,12 +241,17 @@ export default function DonationPage() {
             'Donate Now'
           )}
         </button>
+        )}
 
-        {txState === 'success' && (
+        {donated && !pendingDonation && (
           <div className="mt-4 text-center text-green-500">
-            Thank you for your contribution!
+            Thank you for your contribution!{' '}
+            <a href="/certificates" className="underline">View your donation certificate</a>
+            {' '}or <Link href={`/projects/${projectId}`} className="underline">follow the project</Link>
           </div>
         )}
+        </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,125 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatUnits } from 'viem'
+import { useWeb3 } from '../contexts/web3Context'
+import type { DonationCertificate, FundingToken } from '../services/contractService'
+
+interface CertificateRow extends DonationCertificate {
+  projectName: string
+  token: FundingToken
+}
+
+export default function DonorCertificates() {
+  const { contractService, address, isConnected, connectWallet } = useWeb3()
+  const [certificates, setCertificates] = useState<CertificateRow[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadCertificates = async () => {
+      try {
+        if (!contractService || !address) return
+        setIsLoading(true)
+        setError(null)
+        const items = await contractService.getDonationCertificates(address)
+        const rows = await Promise.all(
+          items.map(async (c) => {
+            const p = await contractService.getProjectDetails(Number(c.projectId))
+            return {
+              ...c,
+              projectName: p.projectName,
+              token: await contractService.getTokenInfo(c.fundingToken),
+            }
+          })
+        )
+        // Newest first
+        setCertificates(rows.reverse())
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load certificates')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadCertificates()
+  }, [contractService, address])
+
+  if (!isConnected) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center">
+        <h1 className="text-3xl font-bold mb-4">My Donation Certificates</h1>
+        <p className="text-gray-600 mb-6">Connect your wallet to see the certificates for your donations.</p>
+        <button
+          onClick={connectWallet}
+          className="bg-blue-500 text-white py-2 px-4 rounded hover:bg-blue-600 transition duration-200"
+        >
+          Connect Wallet
+        </button>
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center text-red-500">
+          <p>Error loading certificates.</p>
+          <p className="text-sm mt-2">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2 text-center">My Donation Certificates</h1>
+      <p className="text-center text-gray-600 mb-8">
+        Every donation mints a non-transferable certificate to your wallet as on-chain proof of contribution.{' '}
+        <Link href="/portfolio" className="text-blue-600 hover:underline">See your portfolio</Link>
+      </p>
+      {certificates.length === 0 ? (
+        <div className="text-center">
+          <h3 className="text-lg font-medium text-gray-900">No Certificates Yet</h3>
+          <p className="mt-1 text-sm text-gray-500">Donate to a project to receive your first certificate.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {certificates.map((c) => (
+            <div key={c.tokenId.toString()} className="bg-white rounded-lg shadow-lg overflow-hidden">
+              <div className="bg-blue-900 text-white px-6 py-3 flex justify-between items-center">
+                <span className="font-semibold">Certificate #{c.tokenId.toString()}</span>
+                <span className="text-xs text-blue-200">Soulbound</span>
+              </div>
+              <div className="p-6 space-y-2 text-sm">
+                <h2 className="text-lg font-semibold">
+                  <Link href={`/projects/${c.projectId}`} className="hover:text-blue-600">{c.projectName}</Link>
+                </h2>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Project ID:</span>
+                  <span>{c.projectId.toString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Amount:</span>
+                  <span>{formatUnits(c.amount, c.token.decimals)} {c.token.symbol}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Date:</span>
+                  <span>{new Date(Number(c.timestamp) * 1000).toLocaleString()}</span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatUnits } from 'viem'
+import { Trophy } from 'lucide-react'
+import { indexerService, type DonorRanking } from '../services/indexerService'
+import type { FundingToken } from '../services/contractService'
+
+interface DonorLeaderboardProps {
+  fundingToken: FundingToken
+  limit?: number
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+// Top donors in one funding token, from the event indexer. Refunded donations don't
+// count. The indexer is optional, so nothing is shown while it can't be reached.
+export default function DonorLeaderboard({ fundingToken, limit = 5 }: DonorLeaderboardProps) {
+  const [rankings, setRankings] = useState<DonorRanking[] | null>(null)
+
+  useEffect(() => {
+    indexerService
+      .getDonorLeaderboard(fundingToken.isNative ? undefined : fundingToken.address, limit)
+      .then(setRankings)
+      .catch((err) => {
+        console.error('Error loading donor leaderboard:', err)
+        setRankings(null)
+      })
+  }, [fundingToken, limit])
+
+  if (!rankings || rankings.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-lg font-semibold mb-3 flex items-center">
+        <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+        Top {fundingToken.symbol} donors
+      </h2>
+      <ol className="space-y-2 text-sm">
+        {rankings.map((r) => (
+          <li key={r.donor} className="flex justify-between">
+            <span>
+              <span className="text-gray-500 mr-2">{r.rank}.</span>
+              <span className="font-mono" title={r.donor}>{shortAddress(r.donor)}</span>
+            </span>
+            <span>
+              {formatUnits(r.totalDonated, fundingToken.decimals)} {fundingToken.symbol}
+              <span className="text-gray-500">
+                {' '}· {r.projectCount} project{r.projectCount === 1 ? '' : 's'}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatUnits } from 'viem'
+import { Download, Award } from 'lucide-react'
+import { useWeb3 } from '../contexts/web3Context'
+import type { PortfolioProject } from '../services/contractService'
+import { downloadFile, portfolioStatus, portfolioToCsv, portfolioToJson } from '../lib/portfolioExport'
+
+interface TokenTotals {
+  address: string
+  symbol: string
+  decimals: number
+  donated: bigint
+  released: bigint
+  escrowed: bigint
+}
+
+// Totals per funding token, since amounts in different tokens can't be added up
+function totalsByToken(projects: PortfolioProject[]): TokenTotals[] {
+  const totals = new Map<string, TokenTotals>()
+  for (const p of projects) {
+    const key = p.fundingToken.address.toLowerCase()
+    const t = totals.get(key) ?? {
+      address: p.fundingToken.address,
+      symbol: p.fundingToken.symbol,
+      decimals: p.fundingToken.decimals,
+      donated: BigInt(0),
+      released: BigInt(0),
+      escrowed: BigInt(0),
+    }
+    totals.set(key, {
+      ...t,
+      donated: t.donated + p.donated,
+      released: t.released + p.released,
+      escrowed: t.escrowed + p.escrowed,
+    })
+  }
+  return Array.from(totals.values())
+}
+
+export default function DonorPortfolio() {
+  const { readService, address, isConnected, connectWallet } = useWeb3()
+  const [projects, setProjects] = useState<PortfolioProject[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPortfolio = async () => {
+      try {
+        if (!readService || !address) return
+        setIsLoading(true)
+        setError(null)
+        const portfolio = await readService.getDonorPortfolio(address)
+        // Most recently funded first
+        setProjects(portfolio.sort((a, b) => b.lastDonatedAt - a.lastDonatedAt))
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load portfolio')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadPortfolio()
+  }, [readService, address])
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!address) return
+    const date = new Date().toISOString().slice(0, 10)
+    const filename = `impactchain-portfolio-${address.slice(0, 8)}-${date}.${format}`
+    if (format === 'csv') {
+      downloadFile(filename, portfolioToCsv(projects), 'text/csv')
+    } else {
+      downloadFile(filename, portfolioToJson(address, projects), 'application/json')
+    }
+  }
+
+  if (!isConnected) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center">
+        <h1 className="text-3xl font-bold mb-4">My Portfolio</h1>
+        <p className="text-gray-600 mb-6">Connect your wallet to see the projects you have funded.</p>
+        <button
+          onClick={connectWallet}
+          className="bg-blue-500 text-white py-2 px-4 rounded hover:bg-blue-600 transition duration-200"
+        >
+          Connect Wallet
+        </button>
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center text-red-500">
+          <p>Error loading portfolio.</p>
+          <p className="text-sm mt-2">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const amount = (p: PortfolioProject, value: bigint) =>
+    `${formatUnits(value, p.fundingToken.decimals)} ${p.fundingToken.symbol}`
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">My Portfolio</h1>
+          <p className="font-mono text-sm text-gray-500">{address}</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/certificates" className="py-2 px-4 rounded border text-sm hover:bg-gray-50">
+            Certificates
+          </Link>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={projects.length === 0}
+            className="flex items-center py-2 px-4 rounded bg-blue-500 text-white text-sm hover:bg-blue-600 disabled:bg-gray-400"
+          >
+            <Download className="h-4 w-4 mr-1" /> CSV
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={projects.length === 0}
+            className="flex items-center py-2 px-4 rounded bg-blue-500 text-white text-sm hover:bg-blue-600 disabled:bg-gray-400"
+          >
+            <Download className="h-4 w-4 mr-1" /> JSON
+          </button>
+        </div>
+      </div>
+
+      {projects.length === 0 ? (
+        <div className="text-center">
+          <h3 className="text-lg font-medium text-gray-900">No Donations Yet</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            <Link href="/projects" className="text-blue-600 hover:underline">Browse projects</Link> to make your first donation.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+            {totalsByToken(projects).map((t) => (
+              <React.Fragment key={t.address}>
+                <div className="bg-white rounded-lg shadow p-4">
+                  <p className="text-sm text-gray-500">Donated</p>
+                  <p className="text-2xl font-semibold">{formatUnits(t.donated, t.decimals)} {t.symbol}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-4">
+                  <p className="text-sm text-gray-500">Released to NGOs</p>
+                  <p className="text-2xl font-semibold">{formatUnits(t.released, t.decimals)} {t.symbol}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-4">
+                  <p className="text-sm text-gray-500">Held in escrow</p>
+                  <p className="text-2xl font-semibold">{formatUnits(t.escrowed, t.decimals)} {t.symbol}</p>
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Project</th>
+                  <th className="px-4 py-3 font-medium text-right">Donated</th>
+                  <th className="px-4 py-3 font-medium text-right">Released</th>
+                  <th className="px-4 py-3 font-medium text-right">In escrow</th>
+                  <th className="px-4 py-3 font-medium text-right">Refunded</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {projects.map((p) => (
+                  <tr key={p.projectId}>
+                    <td className="px-4 py-3">
+                      <Link href={`/projects/${p.projectId}`} className="font-medium hover:text-blue-600">
+                        {p.projectName}
+                      </Link>
+                      <p className="text-xs text-gray-500">
+                        {p.donationCount} donation{p.donationCount === 1 ? '' : 's'}, last on{' '}
+                        {new Date(p.lastDonatedAt * 1000).toLocaleDateString()}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right">{amount(p, p.donated)}</td>
+                    <td className="px-4 py-3 text-right">{amount(p, p.released)}</td>
+                    <td className="px-4 py-3 text-right">{amount(p, p.escrowed)}</td>
+                    <td className="px-4 py-3 text-right">{p.refunded > BigInt(0) ? amount(p, p.refunded) : '-'}</td>
+                    <td className="px-4 py-3">
+                      {portfolioStatus(p)}
+                      {p.impactTokenId !== null && (
+                        <span className="ml-2 inline-flex items-center text-xs text-green-700">
+                          <Award className="h-3 w-3 mr-1" />
+                          ImpactToken #{p.impactTokenId.toString()}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
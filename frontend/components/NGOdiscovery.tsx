@@ -1,9 +1,31 @@
 'use client'
 
-import React, { useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
-import { formatEther } from 'viem'
+import React, { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { formatUnits } from 'viem'
 import { useWeb3 } from '../contexts/web3Context'
+import {
+  NATIVE_FUNDING_TOKEN,
+  NGO_STATUS,
+  NGO_STATUS_LABELS,
+  type FundingToken,
+  type NGOProfile,
+} from '../services/contractService'
+import {
+  DEFAULT_PROJECT_FILTERS,
+  FUNDING_STATUS_LABELS,
+  PROJECT_SORT_LABELS,
+  type FundingStatus,
+  type ProjectFilters,
+  type ProjectSort,
+  filterProjects,
+  fundingStatus,
+  parseProjectFilters,
+  toSearchParams,
+} from '../lib/projectSearch'
+import { safeExternalUrl } from '../lib/urls'
+import DonorLeaderboard from './DonorLeaderboard'
 
 interface Project {
   projectId: bigint
@@ -15,28 +37,40 @@ interface Project {
   projectName: string
   description: string
   createdAt: bigint
+  fundingToken: FundingToken
+  fundingDeadline: bigint
+  isCancelled: boolean
+  isFrozen: boolean
 }
 
-export default function NGOdiscovery() {
+interface NGOdiscoveryProps {
+  // Server-rendered lists, refreshed once the client can read the chain
+  initialProjects?: Project[]
+  initialNgos?: NGOProfile[]
+}
+
+export default function NGOdiscovery({ initialProjects, initialNgos }: NGOdiscoveryProps) {
   const router = useRouter()
-  const { contractService } = useWeb3()
-  const [projects, setProjects] = useState<Project[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  const searchParams = useSearchParams()
+  const { readService } = useWeb3()
+  const [projects, setProjects] = useState<Project[]>(initialProjects ?? [])
+  const [ngos, setNgos] = useState<NGOProfile[]>(initialNgos ?? [])
+  const [filters, setFilters] = useState<ProjectFilters>(() =>
+    parseProjectFilters(new URLSearchParams(searchParams?.toString()))
+  )
+  const [isLoading, setIsLoading] = useState(!initialProjects)
   const [error, setError] = useState<string | null>(null)
+  const hasInitial = !!initialProjects
 
   useEffect(() => {
     const loadProjects = async () => {
       try {
-        if (!contractService) return
-        setIsLoading(true)
+        if (!readService) return
+        if (!hasInitial) setIsLoading(true)
         setError(null)
-        const count = await contractService.getProjectCount()
-        const items: Project[] = []
-        for (let id = 1; id <= Number(count); id++) {
-          const p = await contractService.getProjectDetails(id)
-          items.push(p as Project)
-        }
-        setProjects(items)
+        const count = Number(await readService.getProjectCount())
+        setProjects(await readService.getProjectsPage(0, count))
+        setNgos(await readService.getNGOs())
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load projects')
       } finally {
@@ -44,15 +78,49 @@ export default function NGOdiscovery() {
       }
     }
     loadProjects()
-  }, [contractService])
+  }, [readService, hasInitial])
+
+  // Keep the URL shareable. replaceState skips the server re-render a router
+  // navigation would trigger on every keystroke.
+  useEffect(() => {
+    const query = toSearchParams(filters).toString()
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname)
+  }, [filters])
+
+  const updateFilters = (changes: Partial<ProjectFilters>) => setFilters((prev) => ({ ...prev, ...changes }))
+
+  const isFiltered = toSearchParams({ ...filters, sort: DEFAULT_PROJECT_FILTERS.sort }).toString() !== ''
+
+  const isSelectedNgo = (address: string) => filters.creator.toLowerCase() === address.toLowerCase()
 
   const calculateProgress = (fundsRaised: bigint, totalAmount: bigint) => {
     if (totalAmount === BigInt(0)) return 0
     return Number((fundsRaised * BigInt(100)) / totalAmount)
   }
 
+  const projectCountFor = (ngo: string) =>
+    projects.filter((p) => p.creator.toLowerCase() === ngo.toLowerCase()).length
+
+  const ngoName = (address: string) =>
+    ngos.find((n) => n.address.toLowerCase() === address.toLowerCase())?.name
+
+  const visibleProjects = useMemo(() => filterProjects(projects, filters), [projects, filters])
+
+  // Every token some project is funded in, for the token filter
+  const fundingTokens = useMemo(
+    () =>
+      Array.from(
+        new Map(projects.map((p) => [p.fundingToken.address.toLowerCase(), p.fundingToken])).values()
+      ).sort((a, b) => a.symbol.localeCompare(b.symbol)),
+    [projects]
+  )
+
+  const selectedToken = fundingTokens.find((t) => t.address.toLowerCase() === filters.token.toLowerCase())
+  // Without a token filter, goal bounds apply in each project's own token
+  const goalUnit = selectedToken?.symbol ?? 'project token'
+
   const handleDonateClick = (projectId: number) => {
-    router.push(`/donate/${projectId}`)
+    router.push(`/projects/${projectId}/donate`)
   }
 
   if (isLoading) {
@@ -74,11 +142,154 @@ export default function NGOdiscovery() {
     )
   }
 
-  const hasProjects = projects && projects.length > 0
+  const hasProjects = visibleProjects.length > 0
 
   return (
     <div className="container mx-auto px-4 py-8">
       <h1 className="text-3xl font-bold mb-8 text-center">Available NGO Projects</h1>
+
+      {ngos.length > 0 && (
+        <div className="mb-10">
+          <h2 className="text-xl font-semibold mb-4">Organisations</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {ngos.map((ngo) => {
+              const profileUrl = safeExternalUrl(ngo.metadataUri)
+              return (
+                <div
+                  key={ngo.address}
+                  className={`bg-white rounded-lg shadow p-4 border-2 transition duration-200 ${
+                    isSelectedNgo(ngo.address) ? 'border-blue-500' : 'border-transparent hover:border-blue-200'
+                  }`}
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="font-semibold">{ngo.name}</h3>
+                    <span className={`text-xs px-2 py-1 rounded ${
+                      ngo.status === NGO_STATUS.VERIFIED ? 'bg-green-100 text-green-800' :
+                      ngo.status === NGO_STATUS.SUSPENDED ? 'bg-red-100 text-red-800' :
+                      'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {NGO_STATUS_LABELS[ngo.status]}
+                    </span>
+                  </div>
+                  <p className="font-mono text-xs text-gray-500 truncate">{ngo.address}</p>
+                  <p className="text-sm text-gray-600 mt-2">
+                    {projectCountFor(ngo.address)} project{projectCountFor(ngo.address) === 1 ? '' : 's'}
+                  </p>
+                  <div className="flex justify-between items-center mt-2">
+                    <button
+                      onClick={() => updateFilters({ creator: isSelectedNgo(ngo.address) ? '' : ngo.address })}
+                      aria-pressed={isSelectedNgo(ngo.address)}
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      {isSelectedNgo(ngo.address) ? 'Show all projects' : 'Show projects'}
+                    </button>
+                    {profileUrl && (
+                      <a
+                        href={profileUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Profile
+                      </a>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="mb-8 bg-white rounded-lg shadow p-4 space-y-3">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => updateFilters({ query: e.target.value })}
+          placeholder="Search projects by name or description"
+          aria-label="Search projects"
+          className="w-full border rounded px-3 py-2"
+        />
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 text-sm">
+          <select
+            value={filters.status}
+            onChange={(e) => updateFilters({ status: e.target.value as FundingStatus | '' })}
+            aria-label="Funding status"
+            className="border rounded px-2 py-1"
+          >
+            <option value="">Any status</option>
+            {Object.entries(FUNDING_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            list="ngo-addresses"
+            value={filters.creator}
+            onChange={(e) => updateFilters({ creator: e.target.value })}
+            placeholder="Creator address"
+            aria-label="Creator address"
+            className="border rounded px-2 py-1 font-mono"
+          />
+          <datalist id="ngo-addresses">
+            {ngos.map((ngo) => (
+              <option key={ngo.address} value={ngo.address}>{ngo.name}</option>
+            ))}
+          </datalist>
+          <select
+            value={filters.token}
+            onChange={(e) => updateFilters({ token: e.target.value })}
+            aria-label="Funding token"
+            className="border rounded px-2 py-1"
+          >
+            <option value="">Any token</option>
+            {fundingTokens.map((token) => (
+              <option key={token.address} value={token.address}>{token.symbol}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={filters.minGoal}
+            onChange={(e) => updateFilters({ minGoal: e.target.value })}
+            placeholder={`Min goal (${goalUnit})`}
+            aria-label={`Minimum goal in ${goalUnit}`}
+            className="border rounded px-2 py-1"
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={filters.maxGoal}
+            onChange={(e) => updateFilters({ maxGoal: e.target.value })}
+            placeholder={`Max goal (${goalUnit})`}
+            aria-label={`Maximum goal in ${goalUnit}`}
+            className="border rounded px-2 py-1"
+          />
+          <select
+            value={filters.sort}
+            onChange={(e) => updateFilters({ sort: e.target.value as ProjectSort })}
+            aria-label="Sort by"
+            className="border rounded px-2 py-1"
+          >
+            {Object.entries(PROJECT_SORT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex justify-between items-center text-sm text-gray-500">
+          <span>
+            {visibleProjects.length} of {projects.length} project{projects.length === 1 ? '' : 's'}
+          </span>
+          {isFiltered && (
+            <button onClick={() => setFilters(DEFAULT_PROJECT_FILTERS)} className="text-blue-600 hover:underline">
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
       {!hasProjects ? (
         <div className="text-center">
           <div className="mb-4">
@@ -86,18 +297,29 @@ export default function NGOdiscovery() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
             </svg>
           </div>
-          <h3 className="text-lg font-medium text-gray-900">No Projects Yet</h3>
-          <p className="mt-1 text-sm text-gray-500">Get started by creating a new project.</p>
+          <h3 className="text-lg font-medium text-gray-900">
+            {isFiltered ? 'No Matching Projects' : 'No Projects Yet'}
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {isFiltered ? 'Try a different search or clear the filters.' : 'Get started by creating a new project.'}
+          </p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {projects.map((project, index) => (
+          {visibleProjects.map((project) => (
             <div
-              key={index}
+              key={project.projectId.toString()}
               className="bg-white rounded-lg shadow-lg overflow-hidden"
             >
               <div className="p-6">
-                <h2 className="text-xl font-semibold mb-2">{project.projectName}</h2>
+                <h2 className="text-xl font-semibold mb-2">
+                  <Link href={`/projects/${project.projectId}`} className="hover:text-blue-600">
+                    {project.projectName}
+                  </Link>
+                </h2>
+                <p className="text-sm text-gray-500 mb-2">
+                  by {ngoName(project.creator) ?? `${project.creator.slice(0, 6)}...${project.creator.slice(-4)}`}
+                </p>
                 <p className="text-gray-600 mb-4">{project.description}</p>
                 <div className="mb-4">
                   <div className="w-full bg-gray-200 rounded-full h-2.5">
@@ -110,24 +332,42 @@ export default function NGOdiscovery() {
                   </div>
                   <div className="flex justify-between mt-2 text-sm text-gray-600">
                     <span>
-                      {formatEther(project.fundsRaised)} ETH raised
+                      {formatUnits(project.fundsRaised, project.fundingToken.decimals)} {project.fundingToken.symbol} raised
                     </span>
                     <span>
-                      {formatEther(project.totalAmount)} ETH goal
+                      {formatUnits(project.totalAmount, project.fundingToken.decimals)} {project.fundingToken.symbol} goal
                     </span>
                   </div>
                 </div>
-                <button
-                  onClick={() => handleDonateClick(Number(project.projectId))}
-                  className="w-full bg-blue-500 text-white py-2 px-4 rounded hover:bg-blue-600 transition duration-200"
-                >
-                  Donate Now
-                </button>
+                <div className="flex gap-2">
+                  <Link
+                    href={`/projects/${project.projectId}`}
+                    className="flex-1 text-center border border-blue-500 text-blue-600 py-2 px-4 rounded hover:bg-blue-50 transition duration-200"
+                  >
+                    View Project
+                  </Link>
+                  {fundingStatus(project) === 'open' ? (
+                    <button
+                      onClick={() => handleDonateClick(Number(project.projectId))}
+                      className="flex-1 bg-blue-500 text-white py-2 px-4 rounded hover:bg-blue-600 transition duration-200"
+                    >
+                      Donate Now
+                    </button>
+                  ) : (
+                    <span className="flex-1 text-center bg-gray-100 text-gray-500 py-2 px-4 rounded">
+                      {FUNDING_STATUS_LABELS[fundingStatus(project)]}
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
           ))}
         </div>
       )}
+
+      <div className="mt-10 max-w-xl">
+        <DonorLeaderboard fundingToken={selectedToken ?? NATIVE_FUNDING_TOKEN} />
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { useWeb3 } from '../contexts/web3Context'
+import { getChainName } from '../config/chains'
+
+// Site-wide notice shown while the wallet is on a chain without ImpactChain contracts
+export default function NetworkBanner() {
+  const { isConnected, chainId, isSupportedNetwork, supportedChainIds, switchNetwork } = useWeb3()
+  const [error, setError] = useState<string | null>(null)
+
+  if (!isConnected || isSupportedNetwork) return null
+
+  const handleSwitch = async (targetChainId: number) => {
+    setError(null)
+    try {
+      await switchNetwork(targetChainId)
+    } catch (err) {
+      setError(`Could not switch to ${getChainName(targetChainId)}. Please switch in your wallet.`)
+    }
+  }
+
+  return (
+    <div className="bg-yellow-500 text-gray-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-wrap items-center gap-2 text-sm">
+        <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+        <span>
+          <strong>Unsupported network.</strong> ImpactChain is not deployed on {getChainName(chainId!)}.
+          {supportedChainIds.length > 0 && ' Switch to:'}
+        </span>
+        {supportedChainIds.map((id) => (
+          <button
+            key={id}
+            onClick={() => handleSwitch(id)}
+            className="px-3 py-1 rounded-md bg-gray-900 text-white hover:bg-gray-700"
+          >
+            {getChainName(id)}
+          </button>
+        ))}
+        {error && <span className="text-red-800">{error}</span>}
+      </div>
+    </div>
+  )
+}
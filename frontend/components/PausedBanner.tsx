@@ -0,0 +1,39 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { useWeb3 } from '../contexts/web3Context'
+import type { PauseStatus } from '../services/contractService'
+
+// Site-wide notice shown while the escrow's circuit breaker is engaged
+export default function PausedBanner() {
+  const { readService } = useWeb3()
+  const [pauseStatus, setPauseStatus] = useState<PauseStatus | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      if (!readService) return
+      try {
+        setPauseStatus(await readService.getPauseStatus())
+      } catch (err) {
+        console.error('Error loading pause status:', err)
+      }
+    }
+    load()
+  }, [readService])
+
+  if (!pauseStatus?.isPaused) return null
+
+  return (
+    <div className="bg-red-600 text-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center text-sm">
+        <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+        <span>
+          <strong>ImpactChain is paused.</strong> Donations, milestone payouts and project completion are
+          temporarily disabled. Refunds remain available.
+          {pauseStatus.reason && <> Reason: {pauseStatus.reason}</>}
+        </span>
+      </div>
+    </div>
+  )
+}
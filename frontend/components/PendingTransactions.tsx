@@ -0,0 +1,40 @@
+'use client'
+
+import Link from 'next/link'
+import { Loader2 } from 'lucide-react'
+import { useTransactions } from '../hooks/useTransactions'
+import { TRANSACTION_LABELS } from '../services/transactionManager'
+
+// Site-wide list of transactions waiting on the wallet or the chain. Submitted ones
+// survive a reload and update here once they are mined, replaced or dropped.
+export default function PendingTransactions() {
+  const { pending } = useTransactions()
+
+  if (pending.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2">
+      {pending.map((tx) => (
+        <div key={tx.id} className="bg-white rounded-lg shadow-lg border border-gray-200 p-3 flex items-start text-sm">
+          <Loader2 className="h-4 w-4 mr-2 mt-0.5 animate-spin text-blue-600 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900">
+              {TRANSACTION_LABELS[tx.action]}
+              {tx.projectId !== undefined && (
+                <>
+                  {' · '}
+                  <Link href={`/projects/${tx.projectId}`} className="text-blue-600 hover:underline">
+                    project #{tx.projectId}
+                  </Link>
+                </>
+              )}
+            </p>
+            <p className="text-xs text-gray-600 truncate">
+              {tx.status === 'confirming' ? 'Waiting for wallet confirmation…' : `Pending ${tx.hash}`}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
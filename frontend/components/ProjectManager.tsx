@@ -1,10 +1,14 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useAccount } from 'wagmi'
-import { useProjects, Project, Milestone } from '../hooks/useProjects'
+import Link from 'next/link'
+import { formatUnits } from 'viem'
+import { useProjects, Project, Milestone, MILESTONE_STATE_LABELS } from '../hooks/useProjects'
 import { useWeb3 } from '../contexts/web3Context'
+import { useRoles } from '../hooks/useRoles'
+import type { ImpactMetrics } from '../services/contractService'
 import { useDonateToProject, useVerifyMilestone } from '../hooks/useContracts'
+import { safeExternalUrl } from '../lib/urls'
 import { 
   Plus, 
   Heart, 
@@ -14,19 +18,47 @@ import {
   Eye,
   User,
   Building,
-  Award
+  Award,
+  FileText,
+  XCircle,
+  AlertTriangle
 } from 'lucide-react'
 
 export default function ProjectManager() {
-  const { address, isConnected } = useAccount()
-  const { isConnected: isCtxConnected, connectWallet } = useWeb3()
-  const { projects, isLoading, error, createProject, donateToProject, verifyMilestone } = useProjects()
+  const { address, isConnected } = useWeb3()
+  const {
+    projects,
+    isLoading,
+    error,
+    milestonesByProject,
+    actionLoading,
+    actionErrors,
+    fetchMilestones,
+    createProject,
+    donateToProject,
+    verifyMilestone,
+    rejectMilestone,
+    submitMilestoneEvidence,
+    raiseDispute,
+    resolveDispute,
+    payMilestone,
+    completeProject,
+    fetchImpactMetrics,
+    reportImpact,
+  } = useProjects()
   const [showCreateForm, setShowCreateForm] = useState(false)
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null)
-  const [milestones, setMilestones] = useState<Milestone[]>([])
+  const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null)
+  // Read from the hook so refreshes after a transaction show up in the open modal
+  const selectedProject = projects.find((p) => p.id === selectedProjectId) ?? null
+  const milestones: Milestone[] = (selectedProjectId !== null && milestonesByProject[selectedProjectId]) || []
+  const { roles, canVerify } = useRoles(selectedProject?.id)
   const [donationAmount, setDonationAmount] = useState('')
-  const [impactValue, setImpactValue] = useState('')
+  const [projectImpact, setProjectImpact] = useState<ImpactMetrics | null>(null)
+  const [impactActuals, setImpactActuals] = useState<string[]>([])
   const [imageUri, setImageUri] = useState('')
+  const [evidenceUris, setEvidenceUris] = useState<Record<number, string>>({})
+  const [reviewReasons, setReviewReasons] = useState<Record<number, string>>({})
+  const [disputeNotes, setDisputeNotes] = useState<Record<number, string>>({})
 
   // Create Project Form State
   const [projectName, setProjectName] = useState('')
@@ -34,10 +66,13 @@ export default function ProjectManager() {
   const [ngoAddress, setNgoAddress] = useState('')
   const [milestoneAmounts, setMilestoneAmounts] = useState([''])
   const [milestoneDescriptions, setMilestoneDescriptions] = useState([''])
+  const [fundingDeadline, setFundingDeadline] = useState('')
+  const [fundingToken, setFundingToken] = useState('')
+  const [impactMetrics, setImpactMetrics] = useState([{ name: '', unit: '', target: '' }])
 
   const handleCreateProject = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!projectName || !projectDescription || !ngoAddress || milestoneAmounts.length === 0 || milestoneDescriptions.length === 0) {
+    if (!projectName || !projectDescription || !ngoAddress || !fundingDeadline || milestoneAmounts.length === 0 || milestoneDescriptions.length === 0) {
       console.error('Missing required fields')
       return
     }
@@ -64,9 +99,16 @@ export default function ProjectManager() {
         return
       }
 
-      // Ensure wallet is connected for signer-backed transactions
-      if (!isCtxConnected) {
-        await connectWallet()
+      const filteredMetrics = impactMetrics.filter(m => m.name.trim() !== '')
+      if (filteredMetrics.length === 0) {
+        alert('Please declare at least one impact metric')
+        return
+      }
+
+      const deadlineSeconds = Math.floor(new Date(fundingDeadline).getTime() / 1000)
+      if (!deadlineSeconds || deadlineSeconds <= Math.floor(Date.now() / 1000)) {
+        alert('Funding deadline must be in the future')
+        return
       }
 
       await createProject(
@@ -74,7 +116,14 @@ export default function ProjectManager() {
         filteredAmounts,
         filteredDescriptions,
         projectName,
-        projectDescription
+        projectDescription,
+        deadlineSeconds,
+        filteredMetrics.map(m => ({
+          name: m.name.trim(),
+          unit: m.unit.trim(),
+          target: BigInt(m.target || '0'),
+        })),
+        fundingToken.trim() || undefined
       )
 
       alert('Transaction sent. Project will appear once confirmed.')
@@ -86,6 +135,9 @@ export default function ProjectManager() {
       setNgoAddress('')
       setMilestoneAmounts([''])
       setMilestoneDescriptions([''])
+      setFundingDeadline('')
+      setFundingToken('')
+      setImpactMetrics([{ name: '', unit: '', target: '' }])
     } catch (error) {
       console.error('Failed to create project:', error)
       alert(error instanceof Error ? error.message : 'Failed to create project. Check console for details.')
@@ -104,42 +156,119 @@ export default function ProjectManager() {
 
   const handleVerifyMilestone = async (projectId: number, milestoneIndex: number) => {
     try {
-      await verifyMilestone(projectId, milestoneIndex)
+      await verifyMilestone(projectId, milestoneIndex, reviewReasons[milestoneIndex])
+      setReviewReasons({ ...reviewReasons, [milestoneIndex]: '' })
       // Refresh milestones
-      const updatedMilestones = await fetchMilestones(projectId)
-      setMilestones(updatedMilestones)
+      await fetchMilestones(projectId)
     } catch (error) {
       console.error('Failed to verify milestone:', error)
     }
   }
 
+  const handleRejectMilestone = async (projectId: number, milestoneIndex: number) => {
+    const reason = reviewReasons[milestoneIndex]
+    if (!reason) {
+      alert('Please give a reason for rejecting this milestone')
+      return
+    }
+    try {
+      await rejectMilestone(projectId, milestoneIndex, reason)
+      setReviewReasons({ ...reviewReasons, [milestoneIndex]: '' })
+      // Refresh milestones
+      await fetchMilestones(projectId)
+    } catch (error) {
+      console.error('Failed to reject milestone:', error)
+    }
+  }
+
+  const handleRaiseDispute = async (projectId: number, milestoneIndex: number) => {
+    const reason = disputeNotes[milestoneIndex]
+    if (!reason) return
+    try {
+      await raiseDispute(projectId, milestoneIndex, reason)
+      setDisputeNotes({ ...disputeNotes, [milestoneIndex]: '' })
+      // Refresh milestones
+      await fetchMilestones(projectId)
+    } catch (error) {
+      console.error('Failed to raise dispute:', error)
+    }
+  }
+
+  const handleResolveDispute = async (projectId: number, milestoneIndex: number, upheld: boolean) => {
+    const resolution = disputeNotes[milestoneIndex]
+    if (!resolution) {
+      alert('Please explain the resolution')
+      return
+    }
+    try {
+      await resolveDispute(projectId, milestoneIndex, upheld, resolution)
+      setDisputeNotes({ ...disputeNotes, [milestoneIndex]: '' })
+      // Refresh milestones
+      await fetchMilestones(projectId)
+    } catch (error) {
+      console.error('Failed to resolve dispute:', error)
+    }
+  }
+
+  const isChallengeWindowOpen = (milestone: Milestone) =>
+    milestone.state === 1 && Number(milestone.challengeDeadline) * 1000 > Date.now()
+
+  const handleSubmitEvidence = async (projectId: number, milestoneIndex: number) => {
+    const uri = evidenceUris[milestoneIndex]
+    if (!uri) return
+    try {
+      await submitMilestoneEvidence(projectId, milestoneIndex, uri)
+      setEvidenceUris({ ...evidenceUris, [milestoneIndex]: '' })
+      // Refresh milestones
+      await fetchMilestones(projectId)
+    } catch (error) {
+      console.error('Failed to submit evidence:', error)
+    }
+  }
+
   const handlePayMilestone = async (projectId: number, milestoneIndex: number) => {
     try {
+      // The hook refreshes the project and its milestones
       await payMilestone(projectId, milestoneIndex)
-      // Refresh milestones
-      const updatedMilestones = await fetchMilestones(projectId)
-      setMilestones(updatedMilestones)
     } catch (error) {
       console.error('Failed to pay milestone:', error)
     }
   }
 
+  const handleReportImpact = async (projectId: number) => {
+    try {
+      await reportImpact(projectId, impactActuals.map(v => BigInt(v || '0')))
+      setProjectImpact(await fetchImpactMetrics(projectId))
+    } catch (error) {
+      console.error('Failed to report impact:', error)
+    }
+  }
+
   const handleCompleteProject = async (projectId: number) => {
-    if (!impactValue || !imageUri) return
     try {
-      await completeProject(projectId, parseInt(impactValue), imageUri)
-      setImpactValue('')
+      await completeProject(projectId, imageUri)
       setImageUri('')
-      setSelectedProject(null)
+      setSelectedProjectId(null)
     } catch (error) {
       console.error('Failed to complete project:', error)
     }
   }
 
+  // Amounts are in base units of the project's funding token
+  const formatAmount = (project: Project, value: bigint) =>
+    `${formatUnits(value, project.fundingToken.decimals)} ${project.fundingToken.symbol}`
+
+  const calculateProgress = (project: Project) => {
+    if (project.totalAmount === BigInt(0)) return 0
+    return Number((project.fundsRaised * BigInt(100)) / project.totalAmount)
+  }
+
   const viewProjectDetails = async (project: Project) => {
-    setSelectedProject(project)
-    const projectMilestones = await fetchMilestones(project.id)
-    setMilestones(projectMilestones)
+    setSelectedProjectId(project.id)
+    await fetchMilestones(project.id)
+    const impact = await fetchImpactMetrics(project.id)
+    setProjectImpact(impact)
+    setImpactActuals(impact ? impact.metrics.map((_, i) => impact.actualValues[i]?.toString() ?? '') : [])
   }
 
   const addMilestone = () => {
@@ -152,6 +281,13 @@ export default function ProjectManager() {
     setMilestoneDescriptions(milestoneDescriptions.filter((_, i) => i !== index))
   }
 
+  const updateImpactMetric = (index: number, field: 'name' | 'unit' | 'target', value: string) => {
+    setImpactMetrics(impactMetrics.map((m, i) => (i === index ? { ...m, [field]: value } : m)))
+  }
+
+  const isImpactReported = !!projectImpact &&
+    projectImpact.actualValues.length === projectImpact.metrics.length
+
   if (!isConnected) {
     return (
       <div className="text-center py-12">
@@ -234,6 +370,33 @@ export default function ProjectManager() {
                   required
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Funding Deadline
+                </label>
+                <input
+                  type="datetime-local"
+                  value={fundingDeadline}
+                  onChange={(e) => setFundingDeadline(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent"
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Donors can reclaim their funds if the goal isn&apos;t met by this date
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Funding Token (optional)
+                </label>
+                <input
+                  type="text"
+                  value={fundingToken}
+                  onChange={(e) => setFundingToken(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent"
+                  placeholder="ERC-20 address, leave blank for ETH"
+                />
+              </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -250,7 +413,7 @@ export default function ProjectManager() {
                         setMilestoneAmounts(newAmounts)
                       }}
                       className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent flex-1"
-                      placeholder="Amount in ETH"
+                      placeholder={fundingToken.trim() ? 'Amount in tokens' : 'Amount in ETH'}
                       required
                     />
                     <input
@@ -285,6 +448,55 @@ export default function ProjectManager() {
                 </button>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Impact Metrics
+                </label>
+                {impactMetrics.map((metric, index) => (
+                  <div key={index} className="flex gap-2 mb-2">
+                    <input
+                      type="text"
+                      value={metric.name}
+                      onChange={(e) => updateImpactMetric(index, 'name', e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent flex-2"
+                      placeholder="Metric, e.g. Trees planted"
+                      required={index === 0}
+                    />
+                    <input
+                      type="text"
+                      value={metric.unit}
+                      onChange={(e) => updateImpactMetric(index, 'unit', e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent flex-1"
+                      placeholder="Unit, e.g. trees"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      value={metric.target}
+                      onChange={(e) => updateImpactMetric(index, 'target', e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-600 focus:border-transparent flex-1"
+                      placeholder="Target"
+                    />
+                    {impactMetrics.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setImpactMetrics(impactMetrics.filter((_, i) => i !== index))}
+                        className="btn-secondary px-3"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setImpactMetrics([...impactMetrics, { name: '', unit: '', target: '' }])}
+                  className="btn-secondary text-sm"
+                >
+                  Add Metric
+                </button>
+              </div>
+
               <div className="flex gap-4 pt-4">
                 <button type="submit" className="btn-primary flex-1">
                   Create Project
@@ -310,9 +522,12 @@ export default function ProjectManager() {
               <div>
                 <h2 className="text-2xl font-bold">{selectedProject.name}</h2>
                 <p className="text-gray-600 mt-2">{selectedProject.description}</p>
+                <Link href={`/projects/${selectedProject.id}`} className="text-sm text-primary-600 hover:underline">
+                  Open public project page
+                </Link>
               </div>
               <button
-                onClick={() => setSelectedProject(null)}
+                onClick={() => setSelectedProjectId(null)}
                 className="text-gray-400 hover:text-gray-600"
               >
                 ✕
@@ -331,11 +546,11 @@ export default function ProjectManager() {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Total Amount:</span>
-                      <span>{selectedProject.totalAmount} ETH</span>
+                      <span>{formatAmount(selectedProject, selectedProject.totalAmount)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Funds Raised:</span>
-                      <span>{selectedProject.fundsRaised} ETH</span>
+                      <span>{formatAmount(selectedProject, selectedProject.fundsRaised)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Status:</span>
@@ -356,7 +571,7 @@ export default function ProjectManager() {
                         value={donationAmount}
                         onChange={(e) => setDonationAmount(e.target.value)}
                         className="input-field"
-                        placeholder="Amount in ETH"
+                        placeholder={`Amount in ${selectedProject.fundingToken.symbol}`}
                         step="0.01"
                         min="0"
                       />
@@ -372,34 +587,65 @@ export default function ProjectManager() {
                   </div>
                 )}
 
-                {/* Complete Project Section */}
-                {selectedProject.creator.toLowerCase() === address?.toLowerCase() && 
-                 !selectedProject.isComplete && (
+                {/* Complete Project Section: the NGO reports each metric, a verifier completes */}
+                {projectImpact && !selectedProject.isComplete &&
+                 (roles.isVerifier || address?.toLowerCase() === selectedProject.creator.toLowerCase()) && (
                   <div className="card">
                     <h3 className="font-semibold mb-3">Complete Project</h3>
                     <div className="space-y-3">
-                      <input
-                        type="number"
-                        value={impactValue}
-                        onChange={(e) => setImpactValue(e.target.value)}
-                        className="input-field"
-                        placeholder="Impact Value"
-                      />
-                      <input
-                        type="text"
-                        value={imageUri}
-                        onChange={(e) => setImageUri(e.target.value)}
-                        className="input-field"
-                        placeholder="Image URI"
-                      />
-                      <button
-                        onClick={() => handleCompleteProject(selectedProject.id)}
-                        className="btn-primary w-full"
-                        disabled={!impactValue || !imageUri || isLoading}
-                      >
-                        <Award className="h-4 w-4 mr-2 inline" />
-                        Complete & Mint Token
-                      </button>
+                      {projectImpact.metrics.map((metric, index) => (
+                        <div key={index}>
+                          <label className="block text-sm text-gray-700 mb-1">
+                            {metric.name}{metric.unit && ` (${metric.unit})`}
+                            <span className="text-gray-500"> · target {metric.target.toString()}</span>
+                          </label>
+                          {address?.toLowerCase() === selectedProject.creator.toLowerCase() ? (
+                            <input
+                              type="number"
+                              min="0"
+                              value={impactActuals[index] ?? ''}
+                              onChange={(e) => setImpactActuals(impactActuals.map((v, i) => (i === index ? e.target.value : v)))}
+                              className="input-field"
+                              placeholder="Achieved value"
+                            />
+                          ) : (
+                            <p className="text-sm">
+                              {isImpactReported ? projectImpact.actualValues[index].toString() : 'Not reported yet'}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                      {address?.toLowerCase() === selectedProject.creator.toLowerCase() && (
+                        <button
+                          onClick={() => handleReportImpact(selectedProject.id)}
+                          className="btn-secondary w-full"
+                          disabled={impactActuals.some(v => v === '') || isLoading}
+                        >
+                          {isImpactReported ? 'Update Impact Report' : 'Report Impact'}
+                        </button>
+                      )}
+                      {roles.isVerifier && (
+                        <>
+                          <input
+                            type="text"
+                            value={imageUri}
+                            onChange={(e) => setImageUri(e.target.value)}
+                            className="input-field"
+                            placeholder="Image URI (optional)"
+                          />
+                          <button
+                            onClick={() => handleCompleteProject(selectedProject.id)}
+                            className="btn-primary w-full"
+                            disabled={!isImpactReported || isLoading || actionLoading.completeProject}
+                          >
+                            <Award className="h-4 w-4 mr-2 inline" />
+                            {actionLoading.completeProject ? 'Completing…' : 'Complete & Mint Token'}
+                          </button>
+                          {actionErrors.completeProject && (
+                            <p className="text-xs text-red-600">{actionErrors.completeProject}</p>
+                          )}
+                        </>
+                      )}
                     </div>
                   </div>
                 )}
@@ -408,45 +654,222 @@ export default function ProjectManager() {
               {/* Milestones */}
               <div className="card">
                 <h3 className="font-semibold mb-3">Milestones</h3>
+                {actionLoading.fetchMilestones && milestones.length === 0 && (
+                  <p className="text-sm text-gray-500 mb-3">Loading milestones…</p>
+                )}
+                {(actionErrors.fetchMilestones || actionErrors.payMilestone) && (
+                  <p className="text-xs text-red-600 mb-3">
+                    {actionErrors.payMilestone || actionErrors.fetchMilestones}
+                  </p>
+                )}
                 <div className="space-y-3">
                   {milestones.map((milestone, index) => (
                     <div key={index} className="border rounded-lg p-3">
                       <div className="flex justify-between items-start mb-2">
                         <span className="font-medium">{milestone.description}</span>
-                        <span className="text-sm text-gray-600">{milestone.amount} ETH</span>
+                        <span className="text-sm text-gray-600">{formatAmount(selectedProject, milestone.amount)}</span>
                       </div>
                       <div className="flex justify-between items-center">
                         <span className={`text-sm px-2 py-1 rounded ${
                           milestone.state === 0 ? 'bg-yellow-100 text-yellow-800' :
                           milestone.state === 1 ? 'bg-blue-100 text-blue-800' :
+                          milestone.state === 3 ? 'bg-red-100 text-red-800' :
+                          milestone.state === 4 ? 'bg-orange-100 text-orange-800' :
                           'bg-green-100 text-green-800'
                         }`}>
-                          {milestone.state === 0 ? 'Pending' :
-                           milestone.state === 1 ? 'Verified' : 'Paid'}
+                          {MILESTONE_STATE_LABELS[milestone.state]}
+                        </span>
+                        <span
+                          className="flex items-center text-xs text-gray-600"
+                          title="Verifier approvals / quorum required"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          {milestone.approvals}/{milestone.requiredApprovals} approvals
                         </span>
-                        {address?.toLowerCase() === selectedProject.creator.toLowerCase() && (
+                        {roles.isTreasurer && (
                           <div className="flex gap-2">
-                            {milestone.state === 0 && (
-                              <button
-                                onClick={() => handleVerifyMilestone(selectedProject.id, index)}
-                                className="btn-secondary text-xs px-2 py-1"
-                                disabled={isLoading}
-                              >
-                                Verify
-                              </button>
-                            )}
                             {milestone.state === 1 && (
                               <button
                                 onClick={() => handlePayMilestone(selectedProject.id, index)}
                                 className="btn-primary text-xs px-2 py-1"
-                                disabled={isLoading}
+                                disabled={isLoading || actionLoading.payMilestone || isChallengeWindowOpen(milestone)}
                               >
-                                Pay
+                                {actionLoading.payMilestone ? 'Paying…' : 'Pay'}
                               </button>
                             )}
                           </div>
                         )}
                       </div>
+
+                      {/* Evidence trail */}
+                      {milestone.evidence.length > 0 && (
+                        <div className="mt-3 space-y-1">
+                          <p className="text-xs font-medium text-gray-700">Evidence</p>
+                          {milestone.evidence.map((item, evidenceIndex) => {
+                            const href = safeExternalUrl(item.uri)
+                            return (
+                              <div key={evidenceIndex} className="flex items-center text-xs text-gray-600">
+                                <FileText className="h-3 w-3 mr-1 flex-shrink-0" />
+                                {href ? (
+                                  <a
+                                    href={href}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-primary-600 hover:underline truncate"
+                                  >
+                                    {item.uri}
+                                  </a>
+                                ) : (
+                                  <span className="truncate">{item.uri || item.contentHash}</span>
+                                )}
+                                <span className="ml-auto pl-2 whitespace-nowrap">
+                                  {new Date(Number(item.submittedAt) * 1000).toLocaleDateString()}
+                                </span>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      )}
+
+                      {/* Review trail */}
+                      {milestone.reviews.length > 0 && (
+                        <div className="mt-3 space-y-1">
+                          <p className="text-xs font-medium text-gray-700">Reviews</p>
+                          {milestone.reviews.map((review, reviewIndex) => (
+                            <div key={reviewIndex} className="flex items-start text-xs text-gray-600">
+                              {review.approved ? (
+                                <CheckCircle className="h-3 w-3 mr-1 mt-0.5 text-green-600 flex-shrink-0" />
+                              ) : (
+                                <XCircle className="h-3 w-3 mr-1 mt-0.5 text-red-600 flex-shrink-0" />
+                              )}
+                              <span>
+                                <span className="font-mono">{review.verifier.slice(0, 6)}…{review.verifier.slice(-4)}</span>
+                                {review.reason && <>: {review.reason}</>}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Dispute trail */}
+                      {milestone.disputes.length > 0 && (
+                        <div className="mt-3 space-y-1">
+                          <p className="text-xs font-medium text-gray-700">Disputes</p>
+                          {milestone.disputes.map((dispute, disputeIndex) => (
+                            <div key={disputeIndex} className="flex items-start text-xs text-gray-600">
+                              <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 text-orange-600 flex-shrink-0" />
+                              <span>
+                                <span className="font-mono">{dispute.challenger.slice(0, 6)}…{dispute.challenger.slice(-4)}</span>
+                                : {dispute.reason}
+                                {dispute.resolved && (
+                                  <> — {dispute.upheld ? 'upheld' : 'dismissed'}: {dispute.resolution}</>
+                                )}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Challenge window */}
+                      {isChallengeWindowOpen(milestone) && (
+                        <div className="mt-3">
+                          <p className="text-xs text-gray-600 mb-2">
+                            Donors can dispute this verification until{' '}
+                            {new Date(Number(milestone.challengeDeadline) * 1000).toLocaleString()}
+                          </p>
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              value={disputeNotes[index] || ''}
+                              onChange={(e) => setDisputeNotes({ ...disputeNotes, [index]: e.target.value })}
+                              className="input-field text-xs"
+                              placeholder="Why is this verification wrong?"
+                            />
+                            <button
+                              onClick={() => handleRaiseDispute(selectedProject.id, index)}
+                              className="btn-secondary text-xs px-2 py-1"
+                              disabled={!disputeNotes[index] || isLoading}
+                            >
+                              Dispute
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Arbitration */}
+                      {milestone.state === 4 && roles.isAdmin && (
+                        <div className="flex gap-2 mt-3">
+                          <input
+                            type="text"
+                            value={disputeNotes[index] || ''}
+                            onChange={(e) => setDisputeNotes({ ...disputeNotes, [index]: e.target.value })}
+                            className="input-field text-xs"
+                            placeholder="Resolution"
+                          />
+                          <button
+                            onClick={() => handleResolveDispute(selectedProject.id, index, true)}
+                            className="btn-secondary text-xs px-2 py-1"
+                            disabled={!disputeNotes[index] || isLoading}
+                          >
+                            Uphold
+                          </button>
+                          <button
+                            onClick={() => handleResolveDispute(selectedProject.id, index, false)}
+                            className="btn-secondary text-xs px-2 py-1"
+                            disabled={!disputeNotes[index] || isLoading}
+                          >
+                            Dismiss
+                          </button>
+                        </div>
+                      )}
+
+                      {/* NGO evidence submission */}
+                      {(milestone.state === 0 || milestone.state === 3) &&
+                       address?.toLowerCase() === selectedProject.creator.toLowerCase() && (
+                        <div className="flex gap-2 mt-3">
+                          <input
+                            type="text"
+                            value={evidenceUris[index] || ''}
+                            onChange={(e) => setEvidenceUris({ ...evidenceUris, [index]: e.target.value })}
+                            className="input-field text-xs"
+                            placeholder="Evidence URI (ipfs://...)"
+                          />
+                          <button
+                            onClick={() => handleSubmitEvidence(selectedProject.id, index)}
+                            className="btn-secondary text-xs px-2 py-1 whitespace-nowrap"
+                            disabled={!evidenceUris[index] || isLoading}
+                          >
+                            Submit Evidence
+                          </button>
+                        </div>
+                      )}
+
+                      {/* Verifier review */}
+                      {milestone.state === 0 && canVerify && (
+                        <div className="flex gap-2 mt-3">
+                          <input
+                            type="text"
+                            value={reviewReasons[index] || ''}
+                            onChange={(e) => setReviewReasons({ ...reviewReasons, [index]: e.target.value })}
+                            className="input-field text-xs"
+                            placeholder="Review reason"
+                          />
+                          <button
+                            onClick={() => handleVerifyMilestone(selectedProject.id, index)}
+                            className="btn-secondary text-xs px-2 py-1"
+                            disabled={isLoading}
+                          >
+                            Verify
+                          </button>
+                          <button
+                            onClick={() => handleRejectMilestone(selectedProject.id, index)}
+                            className="btn-secondary text-xs px-2 py-1"
+                            disabled={!reviewReasons[index] || isLoading}
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -478,7 +901,9 @@ export default function ProjectManager() {
             <div key={project.id} className="card hover:shadow-lg transition-shadow">
               <div className="flex justify-between items-start mb-4">
                 <h3 className="text-xl font-semibold text-gray-900">
-                  {project.name}
+                  <Link href={`/projects/${project.id}`} className="hover:text-primary-600">
+                    {project.name}
+                  </Link>
                 </h3>
                 <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                   project.isComplete 
@@ -495,14 +920,14 @@ export default function ProjectManager() {
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">Progress</span>
                   <span className="font-medium">
-                    {Math.round((parseFloat(project.fundsRaised) / parseFloat(project.totalAmount)) * 100)}%
+                    {calculateProgress(project)}%
                   </span>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div 
                     className="bg-primary-600 h-2 rounded-full" 
                     style={{ 
-                      width: `${(parseFloat(project.fundsRaised) / parseFloat(project.totalAmount)) * 100}%` 
+                      width: `${calculateProgress(project)}%` 
                     }}
                   ></div>
                 </div>
@@ -511,7 +936,7 @@ export default function ProjectManager() {
               <div className="flex justify-between items-center text-sm text-gray-500 mb-4">
                 <span className="flex items-center">
                   <DollarSign className="h-4 w-4 mr-1" />
-                  {parseFloat(project.fundsRaised).toFixed(2)} ETH raised
+                  {formatAmount(project, project.fundsRaised)} raised
                 </span>
                 <span className="flex items-center">
                   <Clock className="h-4 w-4 mr-1" />
@@ -530,7 +955,7 @@ export default function ProjectManager() {
                 {!project.isComplete && (
                   <button
                     onClick={() => {
-                      setSelectedProject(project)
+                      setSelectedProjectId(project.id)
                       setDonationAmount('')
                     }}
                     className="btn-secondary"
@@ -0,0 +1,306 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { formatUnits } from 'viem'
+import { CheckCircle, Clock, DollarSign, Users, Award } from 'lucide-react'
+import { useWeb3 } from '../contexts/web3Context'
+import { useProject } from '../hooks/useProject'
+import { useProjectHistory } from '../hooks/useProjectHistory'
+import { MILESTONE_STATE_LABELS } from '../hooks/useProjects'
+import {
+  NATIVE_FUNDING_TOKEN,
+  NGO_STATUS,
+  type FundingToken,
+  type NGOProfile,
+  type ProjectHistory,
+} from '../services/contractService'
+import { safeExternalUrl } from '../lib/urls'
+import type { ProjectSnapshot } from '../services/readOnlyService'
+
+interface ProjectOverviewProps {
+  // Server-rendered project and history, kept live on the client from escrow events.
+  // Anything the server could not read is loaded on the client instead.
+  initial?: ProjectSnapshot
+  initialHistory?: ProjectHistory
+  ngo?: NGOProfile | null
+}
+
+// Mirrors ProjectEscrow.MilestoneState
+const MILESTONE_STATE_STYLES = [
+  'bg-gray-100 text-gray-700',
+  'bg-blue-100 text-blue-800',
+  'bg-green-100 text-green-800',
+  'bg-red-100 text-red-800',
+  'bg-yellow-100 text-yellow-800',
+]
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const formatDate = (seconds: number | bigint) => new Date(Number(seconds) * 1000).toLocaleString()
+
+// Public page for one project: milestones, payouts, donors and the impact token.
+// No wallet is needed until the visitor donates.
+export default function ProjectOverview({ initial, initialHistory, ngo: initialNgo }: ProjectOverviewProps) {
+  const params = useParams()
+  const projectId = Number(params?.projectId)
+  const { readService } = useWeb3()
+  const { project, status, isLoading, error: loadError } = useProject(projectId, initial)
+  const { history, isLoading: isHistoryLoading, error: historyError } = useProjectHistory(projectId, initialHistory)
+  const [fundingToken, setFundingToken] = useState<FundingToken>(initial?.fundingToken ?? NATIVE_FUNDING_TOKEN)
+  const [ngo, setNgo] = useState<NGOProfile | null>(initialNgo ?? null)
+
+  const fundingTokenAddress = status?.fundingToken
+  useEffect(() => {
+    if (initial || !readService || fundingTokenAddress === undefined) return
+    readService
+      .getTokenInfo(fundingTokenAddress)
+      .then(setFundingToken)
+      .catch((err) => console.error('Error loading funding token:', err))
+  }, [initial, readService, fundingTokenAddress])
+
+  const creator = project?.creator
+  useEffect(() => {
+    if (initialNgo !== undefined || !readService || !creator) return
+    readService
+      .getNGO(creator)
+      .then(setNgo)
+      .catch((err) => console.error('Error loading NGO:', err))
+  }, [initialNgo, readService, creator])
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  if (!project || !status) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center text-red-500">{loadError || 'Project not found'}</div>
+      </div>
+    )
+  }
+
+  const formatAmount = (value: bigint) => `${formatUnits(value, fundingToken.decimals)} ${fundingToken.symbol}`
+  const progress = project.totalAmount === BigInt(0)
+    ? 0
+    : Number((project.fundsRaised * BigInt(100)) / project.totalAmount)
+  const canDonate = !project.isComplete && !status.isRefundable && !status.isFrozen
+
+  // One row per donor, largest contribution first
+  const donors = Object.values(
+    (history?.donations ?? []).reduce<Record<string, { donor: string; total: bigint; count: number }>>((acc, d) => {
+      const key = d.args.donor.toLowerCase()
+      const row = acc[key] ?? { donor: d.args.donor, total: BigInt(0), count: 0 }
+      acc[key] = { ...row, total: row.total + d.args.amount, count: row.count + 1 }
+      return acc
+    }, {})
+  ).sort((a, b) => (b.total > a.total ? 1 : b.total < a.total ? -1 : 0))
+
+  const payoutFor = (milestoneIndex: number) =>
+    history?.payouts.find((p) => p.args.milestoneIndex === milestoneIndex)
+
+  // The token URI is set by the NGO, so it goes through the same scheme check as evidence links
+  const impactImageUrl = history?.impactToken ? safeExternalUrl(history.impactToken.imageUri) : null
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="flex justify-between items-start mb-2">
+          <p className="text-sm text-gray-500">Project #{projectId}</p>
+          <span className={`text-xs px-2 py-1 rounded ${
+            project.isComplete ? 'bg-green-100 text-green-800' :
+            status.isCancelled || status.isFrozen ? 'bg-red-100 text-red-800' :
+            'bg-blue-100 text-blue-800'
+          }`}>
+            {project.isComplete ? 'Completed' : status.isCancelled ? 'Cancelled' : status.isFrozen ? 'Frozen' : 'Active'}
+          </span>
+        </div>
+        <h1 className="text-3xl font-bold mb-2">{project.projectName}</h1>
+        <p className="text-sm text-gray-500 mb-6">
+          by {ngo?.name ?? <span className="font-mono">{project.creator}</span>}
+          {ngo?.status === NGO_STATUS.VERIFIED && <CheckCircle className="h-4 w-4 text-green-600 inline ml-1" />}
+        </p>
+        <p className="text-gray-600 mb-6">{project.description}</p>
+
+        <div className="mb-6">
+          <div className="w-full bg-gray-200 rounded-full h-2.5">
+            <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${Math.min(progress, 100)}%` }}></div>
+          </div>
+          <div className="flex justify-between mt-2 text-sm text-gray-600">
+            <span>{formatAmount(project.fundsRaised)} raised</span>
+            <span>{formatAmount(project.totalAmount)} goal</span>
+          </div>
+          {!project.isComplete && !status.isCancelled && (
+            <p className="mt-2 text-sm text-gray-500">Funding deadline: {formatDate(status.fundingDeadline)}</p>
+          )}
+          {status.isFrozen && status.freezeReason && (
+            <p className="mt-2 text-sm text-red-600">Frozen: {status.freezeReason}</p>
+          )}
+        </div>
+
+        {(canDonate || status.isRefundable) && (
+          <Link
+            href={`/projects/${projectId}/donate`}
+            className="block w-full text-center bg-blue-500 text-white py-3 px-4 rounded-md hover:bg-blue-600 transition duration-200"
+          >
+            {status.isRefundable ? 'Claim a Refund' : 'Donate'}
+          </Link>
+        )}
+      </div>
+
+      {/* Milestone timeline */}
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <h2 className="text-xl font-semibold mb-4 flex items-center">
+          <Clock className="h-5 w-5 mr-2" />
+          Milestones
+        </h2>
+        <ol className="relative border-l border-gray-200 ml-2">
+          {project.milestones.map((milestone, index) => {
+            const payout = payoutFor(index)
+            const latestEvidence = milestone.evidence[milestone.evidence.length - 1]
+            const evidenceUrl = latestEvidence ? safeExternalUrl(latestEvidence.uri) : null
+            return (
+              <li key={index} className="mb-6 ml-6">
+                <span className={`absolute -left-2 w-4 h-4 rounded-full border-2 border-white ${
+                  payout ? 'bg-green-500' : 'bg-gray-300'
+                }`}></span>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-medium">{index + 1}. {milestone.description}</p>
+                    <p className="text-sm text-gray-500">{formatAmount(milestone.amount)}</p>
+                  </div>
+                  <span className={`text-xs px-2 py-1 rounded ${MILESTONE_STATE_STYLES[milestone.state]}`}>
+                    {MILESTONE_STATE_LABELS[milestone.state]}
+                  </span>
+                </div>
+                {latestEvidence && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    Evidence submitted {formatDate(latestEvidence.submittedAt)}:{' '}
+                    {evidenceUrl ? (
+                      <a href={evidenceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                        {latestEvidence.uri}
+                      </a>
+                    ) : (
+                      <span className="break-all">{latestEvidence.uri || latestEvidence.contentHash}</span>
+                    )}
+                  </p>
+                )}
+                {payout && (
+                  <p className="text-sm text-green-700 mt-1">
+                    Paid {formatAmount(payout.args.amount)} on {formatDate(payout.timestamp)}
+                  </p>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      </div>
+
+      {historyError && <p className="text-center text-red-500 text-sm">{historyError}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Payout timeline */}
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h2 className="text-xl font-semibold mb-4 flex items-center">
+            <DollarSign className="h-5 w-5 mr-2" />
+            Payouts
+          </h2>
+          {isHistoryLoading ? (
+            <p className="text-sm text-gray-500">Loading payouts...</p>
+          ) : !history?.payouts.length ? (
+            <p className="text-sm text-gray-500">No milestones have been paid yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {history.payouts.map((payout) => (
+                <li key={payout.transactionHash} className="text-sm">
+                  <div className="flex justify-between">
+                    <span className="font-medium">Milestone {payout.args.milestoneIndex + 1}</span>
+                    <span>{formatAmount(payout.args.amount)}</span>
+                  </div>
+                  <p className="text-gray-500">{formatDate(payout.timestamp)}</p>
+                  <p className="font-mono text-xs text-gray-400 truncate">{payout.transactionHash}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Donors */}
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h2 className="text-xl font-semibold mb-4 flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Donors
+          </h2>
+          {isHistoryLoading ? (
+            <p className="text-sm text-gray-500">Loading donors...</p>
+          ) : donors.length === 0 ? (
+            <p className="text-sm text-gray-500">No donations yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {donors.map((row) => (
+                <li key={row.donor} className="flex justify-between text-sm">
+                  <span className="font-mono" title={row.donor}>{shortAddress(row.donor)}</span>
+                  <span>
+                    {formatAmount(row.total)}
+                    {row.count > 1 && <span className="text-gray-500"> ({row.count} donations)</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Impact token */}
+      {history?.impactToken && (
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <h2 className="text-xl font-semibold mb-4 flex items-center">
+            <Award className="h-5 w-5 mr-2" />
+            Impact Token #{history.impactToken.tokenId.toString()}
+          </h2>
+          <div className="flex flex-col md:flex-row gap-6">
+            {impactImageUrl && (
+              <img
+                src={impactImageUrl}
+                alt={`Impact token for ${history.impactToken.projectName}`}
+                className="w-40 h-40 object-cover rounded-md border"
+              />
+            )}
+            <div className="flex-1 text-sm space-y-2">
+              <p className="text-gray-600">{history.impactToken.description}</p>
+              <p className="text-gray-500">
+                Minted to <span className="font-mono">{shortAddress(history.impactToken.recipient)}</span> on{' '}
+                {formatDate(history.impactToken.timestamp)}
+              </p>
+              {history.impactToken.results.length > 0 && (
+                <table className="w-full mt-2">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-medium">Metric</th>
+                      <th className="font-medium text-right">Target</th>
+                      <th className="font-medium text-right">Achieved</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.impactToken.results.map((result) => (
+                      <tr key={result.name}>
+                        <td>{result.name}</td>
+                        <td className="text-right">{result.target.toString()} {result.unit}</td>
+                        <td className="text-right">{result.actual.toString()} {result.unit}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
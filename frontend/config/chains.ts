@@ -0,0 +1,39 @@
+import { defineChain, http } from 'viem'
+import { polygon, polygonAmoy } from 'wagmi/chains'
+
+// Local Hardhat network
+export const hardhatLocal = defineChain({
+  id: 31337,
+  name: 'Hardhat Local',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Ethereum',
+    symbol: 'ETH',
+  },
+  rpcUrls: {
+    default: {
+      http: [process.env.NEXT_PUBLIC_RPC_URL || 'http://127.0.0.1:8545'],
+    },
+  },
+})
+
+// Chains the app can connect to. Each one still needs an entry in the deployments
+// manifest before contracts can be used on it.
+export const supportedChains = [hardhatLocal, polygonAmoy, polygon] as const
+
+// RPC endpoint per chain, shared by wagmi and the read-only provider
+export const rpcUrls: Record<number, string> = {
+  [hardhatLocal.id]: hardhatLocal.rpcUrls.default.http[0],
+  [polygonAmoy.id]: process.env.NEXT_PUBLIC_AMOY_RPC_URL || polygonAmoy.rpcUrls.default.http[0],
+  [polygon.id]: process.env.NEXT_PUBLIC_POLYGON_RPC_URL || polygon.rpcUrls.default.http[0],
+}
+
+export const transports = {
+  [hardhatLocal.id]: http(rpcUrls[hardhatLocal.id]),
+  [polygonAmoy.id]: http(rpcUrls[polygonAmoy.id]),
+  [polygon.id]: http(rpcUrls[polygon.id]),
+}
+
+export function getChainName(chainId: number): string {
+  return supportedChains.find((chain) => chain.id === chainId)?.name ?? `Chain ${chainId}`
+}
@@ -1,11 +1,21 @@
-// Contract addresses and network configuration
+import { rpcUrls } from './chains'
+
+const readChainId = Number(process.env.NEXT_PUBLIC_CHAIN_ID || 31337)
+
+// Contract and service configuration. Contract addresses come per chain from the
+// deployments manifest (see config/deployments.ts).
 export const contractConfig = {
-  addresses: {
-    impactToken: process.env.NEXT_PUBLIC_IMPACT_TOKEN_ADDRESS,
-    projectEscrow: process.env.NEXT_PUBLIC_PROJECT_ESCROW_ADDRESS,
-  },
+  // Chain read through a plain RPC provider on the server and before a wallet connects
   network: {
-    chainId: Number(process.env.NEXT_PUBLIC_CHAIN_ID) || 31337,
-    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL || 'http://127.0.0.1:8545',
+    chainId: readChainId,
+    rpcUrl: rpcUrls[readChainId],
   },
-};
\ No newline at end of file
+  // Served from public/, written by scripts/deploy.js
+  deploymentsUrl: process.env.NEXT_PUBLIC_DEPLOYMENTS_URL || '/deployments.json',
+  // Canonical Multicall3 address; override for chains where it lives elsewhere
+  multicall3: process.env.NEXT_PUBLIC_MULTICALL3_ADDRESS || '0xcA11bde05977b3631167028862bE2a173976CA11',
+  // Event indexer HTTP API (see indexer/README.md)
+  indexerUrl: process.env.NEXT_PUBLIC_INDEXER_URL || 'http://127.0.0.1:4000',
+  // Gateway ipfs:// links are opened through, ending in a slash
+  ipfsGateway: process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://ipfs.io/ipfs/',
+};
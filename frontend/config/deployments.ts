@@ -0,0 +1,77 @@
+import { contractConfig } from './contracts'
+
+// Per-chain contract deployments, written by scripts/deploy.js to public/deployments.json
+// and fetched at runtime so a redeploy doesn't need a rebuild
+
+export const DEPLOYMENTS_VERSION = 1
+
+export interface DeployedContract {
+  address: string
+  constructorArgs: unknown[]
+}
+
+export interface ChainDeployment {
+  network: string
+  chainId: number
+  deployer: string
+  startBlock: number
+  contracts: {
+    ImpactToken: DeployedContract
+    NGORegistry: DeployedContract
+    DonationCertificate: DeployedContract
+    ProjectEscrow: DeployedContract
+  }
+  timestamp: string
+}
+
+export interface DeploymentManifest {
+  version: number
+  deployments: Record<string, ChainDeployment>
+}
+
+export interface ContractAddresses {
+  impactToken: string
+  projectEscrow: string
+  ngoRegistry: string
+  donationCertificate: string
+  multicall3: string
+}
+
+let manifest: Promise<DeploymentManifest> | null = null
+
+export function parseDeployments(body: DeploymentManifest): DeploymentManifest {
+  if (body.version !== DEPLOYMENTS_VERSION) {
+    throw new Error(`Unsupported deployments version ${body.version}, expected ${DEPLOYMENTS_VERSION}`)
+  }
+  return body
+}
+
+// Fetched once per page load; a failed fetch is retried on the next call
+export function loadDeployments(): Promise<DeploymentManifest> {
+  if (!manifest) {
+    manifest = fetch(contractConfig.deploymentsUrl, { cache: 'no-store' })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Failed to load deployments: ${res.status}`)
+        return parseDeployments(await res.json())
+      })
+      .catch((err) => {
+        manifest = null
+        throw err
+      })
+  }
+  return manifest
+}
+
+export async function getDeployment(chainId: number): Promise<ChainDeployment | null> {
+  return (await loadDeployments()).deployments[chainId] ?? null
+}
+
+export function toContractAddresses(deployment: ChainDeployment): ContractAddresses {
+  return {
+    impactToken: deployment.contracts.ImpactToken.address,
+    projectEscrow: deployment.contracts.ProjectEscrow.address,
+    ngoRegistry: deployment.contracts.NGORegistry.address,
+    donationCertificate: deployment.contracts.DonationCertificate.address,
+    multicall3: contractConfig.multicall3,
+  }
+}
@@ -1,17 +1,34 @@
 'use client'
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useAccount, useConnectorClient, useDisconnect, useSwitchChain, type Config } from 'wagmi';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { BrowserProvider, JsonRpcSigner, type Eip1193Provider } from 'ethers';
+import type { Account, Chain, Client, Transport } from 'viem';
 import { ContractService } from '../services/contractService';
-import { BrowserProvider, JsonRpcSigner } from 'ethers';
+import { type DeploymentManifest, loadDeployments, toContractAddresses } from '../config/deployments';
+import { supportedChains } from '../config/chains';
+import { contractConfig } from '../config/contracts';
+import { createReadOnlyService } from '../services/readOnlyService';
 
 interface Web3ContextType {
   provider: BrowserProvider | null;
   signer: JsonRpcSigner | null;
   address: string | null;
   isConnected: boolean;
+  chainId: number | null;
+  // False while the wallet is on a chain with no deployment in the manifest
+  isSupportedNetwork: boolean;
+  // Chains the app knows and that have a deployment
+  supportedChainIds: number[];
+  // Sends transactions; only set while a wallet is connected on a supported chain
   contractService: ContractService | null;
-  connectWallet: () => Promise<void>;
+  // For reads: the wallet's service when there is one, otherwise a read-only RPC service
+  readService: ContractService | null;
+  // Opens the wallet picker
+  connectWallet: () => void;
   disconnectWallet: () => void;
+  switchNetwork: (chainId: number) => Promise<void>;
 }
 
 const Web3Context = createContext<Web3ContextType>({
@@ -19,87 +36,97 @@ const Web3Context = createContext<Web3ContextType>({
   signer: null,
   address: null,
   isConnected: false,
+  chainId: null,
+  isSupportedNetwork: true,
+  supportedChainIds: [],
   contractService: null,
-  connectWallet: async () => {},
+  readService: null,
+  connectWallet: () => {},
   disconnectWallet: () => {},
+  switchNetwork: async () => {},
 });
 
-export function Web3Provider({ children }: { children: React.ReactNode }) {
-  const [provider, setProvider] = useState<BrowserProvider | null>(null);
-  const [signer, setSigner] = useState<JsonRpcSigner | null>(null);
-  const [address, setAddress] = useState<string | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [contractService, setContractService] = useState<ContractService | null>(null);
+// Wrap the connector's viem client in an ethers signer, so ContractService sends
+// through whichever wallet wagmi has connected
+function clientToSigner(client: Client<Transport, Chain, Account>): JsonRpcSigner {
+  const { account, chain, transport } = client;
+  const provider = new BrowserProvider(transport as Eip1193Provider, { chainId: chain.id, name: chain.name });
+  return new JsonRpcSigner(provider, account.address);
+}
 
-  const connectWallet = async () => {
-    try {
-      if (!window.ethereum) {
-        throw new Error('Please install MetaMask to use this application');
-      }
+// The wallet connection itself lives in wagmi (see app/providers.tsx); this adds the
+// ethers signer and ContractService for the connected account and chain
+export function Web3Provider({ children }: { children: React.ReactNode }) {
+  const { address, isConnected, chainId } = useAccount();
+  // Refetched by wagmi when the account or chain changes; missing on unconfigured chains
+  const { data: client } = useConnectorClient<Config>();
+  const { openConnectModal } = useConnectModal();
+  const { disconnect } = useDisconnect();
+  const { switchChainAsync } = useSwitchChain();
+  const [manifest, setManifest] = useState<DeploymentManifest | null>(null);
 
-      // Create a new provider instance
-      const provider = new BrowserProvider(window.ethereum);
-      setProvider(provider);
+  useEffect(() => {
+    loadDeployments()
+      .then(setManifest)
+      .catch((error) => console.error('Error loading deployments:', error));
+  }, []);
 
-      // Request account access
-      await provider.send('eth_requestAccounts', []);
+  const signer = useMemo(() => (client ? clientToSigner(client) : null), [client]);
+  const deployment = manifest && chainId !== undefined ? manifest.deployments[chainId] ?? null : null;
 
-      // Get the signer
-      const signer = await provider.getSigner();
-      setSigner(signer);
+  const contractService = useMemo(
+    () =>
+      signer && deployment && deployment.chainId === client?.chain.id
+        ? new ContractService(signer, toContractAddresses(deployment), deployment.startBlock)
+        : null,
+    [signer, deployment, client]
+  );
 
-      // Get the connected address
-      const address = await signer.getAddress();
-      setAddress(address);
+  // For visitors without a wallet
+  const readOnlyService = useMemo(() => {
+    const readDeployment = manifest?.deployments[contractConfig.network.chainId];
+    return readDeployment ? createReadOnlyService(readDeployment) : null;
+  }, [manifest]);
 
-      // Initialize contract service
-      const service = new ContractService(signer);
-      setContractService(service);
+  // Chains offered in the network switcher
+  const supportedChainIds = useMemo(
+    () => (manifest ? supportedChains.map((chain) => chain.id).filter((id) => manifest.deployments[id] !== undefined) : []),
+    [manifest]
+  );
 
-      setIsConnected(true);
-    } catch (error) {
-      console.error('Error connecting wallet:', error);
-      throw error;
-    }
+  const connectWallet = () => {
+    openConnectModal?.();
   };
 
   const disconnectWallet = () => {
-    setProvider(null);
-    setSigner(null);
-    setAddress(null);
-    setIsConnected(false);
-    setContractService(null);
+    disconnect();
   };
 
-  // Handle account changes
-  useEffect(() => {
-    if (window.ethereum) {
-      window.ethereum.on('accountsChanged', () => {
-        disconnectWallet();
-      });
-
-      window.ethereum.on('chainChanged', () => {
-        window.location.reload();
-      });
+  const switchNetwork = async (targetChainId: number) => {
+    try {
+      await switchChainAsync({ chainId: targetChainId });
+    } catch (error) {
+      console.error('Error switching network:', error);
+      throw error;
     }
-
-    return () => {
-      if (window.ethereum) {
-        window.ethereum.removeAllListeners();
-      }
-    };
-  }, []);
+  };
 
   return (
     <Web3Context.Provider
       value={{
-        provider,
+        provider: (signer?.provider as BrowserProvider | undefined) ?? null,
         signer,
-        address,
+        address: address ?? null,
         isConnected,
+        chainId: chainId ?? null,
+        // Assume supported until the manifest says otherwise, so the banner doesn't flash
+        isSupportedNetwork: !isConnected || !manifest || deployment !== null,
+        supportedChainIds,
         contractService,
+        readService: contractService ?? readOnlyService,
         connectWallet,
         disconnectWallet,
+        switchNetwork,
       }}
     >
       {children}
@@ -113,4 +140,4 @@ export function useWeb3() {
     throw new Error('useWeb3 must be used within a Web3Provider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -1,92 +1,114 @@
-import { useContractRead, useContractWrite, useSimulateContract } from 'wagmi'
-import { contractConfig } from '../config/contracts'
+import { useChainId, useContractRead, useContractWrite, useSimulateContract } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
 import { parseEther } from 'viem'
+import { loadDeployments, toContractAddresses } from '../config/deployments'
+import { IMPACT_TOKEN_ABI, PROJECT_ESCROW_ABI, ROLES } from '../lib/contracts'
 
-const IMPACT_TOKEN_ABI = [
-  'function safeMint(address to, uint256 tokenId, string memory tokenURI) external',
-  'function tokenMetadata(uint256 tokenId) external view returns (tuple(uint256 projectId, string projectName, string description, uint256 impactValue, string imageUri, uint256 timestamp, address recipient))',
-  'function getTokensByOwner(address owner) external view returns (uint256[])',
-]
-
-const PROJECT_ESCROW_ABI = [
-  'function projectCounter() external view returns (uint256)',
-  'function getProject(uint256 _projectId) external view returns (uint256 projectId, address creator, address donor, uint256 totalAmount, uint256 fundsRaised, bool isComplete, string projectName, string description, uint256 createdAt, uint256 milestoneCount)',
-  'function donate(uint256 _projectId) external payable',
-  'function verifyMilestone(uint256 _projectId, uint256 _milestoneIndex) external',
-  'function getMilestone(uint256 _projectId, uint256 _milestoneIndex) external view returns (tuple(string description, uint256 amount, uint8 state))',
-  'function owner() external view returns (address)',
-]
+// Contract addresses on wagmi's current chain; undefined until the manifest loads or
+// when the chain has no deployment, which leaves the queries below disabled
+export function useContractAddresses() {
+  const chainId = useChainId()
+  const { data: manifest } = useQuery({ queryKey: ['deployments'], queryFn: loadDeployments, staleTime: Infinity })
+  const deployment = manifest?.deployments[chainId]
+  return deployment ? toContractAddresses(deployment) : undefined
+}
 
 export function useProjectCount() {
+  const addresses = useContractAddresses()
   return useContractRead({
-    address: contractConfig.addresses.projectEscrow as `0x${string}`,
+    address: addresses?.projectEscrow as `0x${string}` | undefined,
     abi: PROJECT_ESCROW_ABI,
     functionName: 'projectCounter',
   })
 }
 
 export function useProjectDetails(projectId: number) {
+  const addresses = useContractAddresses()
   return useContractRead({
-    address: contractConfig.addresses.projectEscrow as `0x${string}`,
+    address: addresses?.projectEscrow as `0x${string}` | undefined,
     abi: PROJECT_ESCROW_ABI,
     functionName: 'getProject',
     args: [BigInt(projectId)],
+    // getProject returns flat values; name them for callers
+    query: {
+      select: ([id, creator, donor, totalAmount, fundsRaised, isComplete, projectName, description, createdAt, milestoneCount]) => ({
+        projectId: id,
+        creator,
+        donor,
+        totalAmount,
+        fundsRaised,
+        isComplete,
+        projectName,
+        description,
+        createdAt,
+        milestoneCount,
+      }),
+    },
   })
 }
 
 export function useDonateToProject(projectId: number, amount: string) {
+  const addresses = useContractAddresses()
   const { data: simulationData } = useSimulateContract({
-    address: contractConfig.addresses.projectEscrow as `0x${string}`,
+    address: addresses?.projectEscrow as `0x${string}` | undefined,
     abi: PROJECT_ESCROW_ABI,
     functionName: 'donate',
     args: [BigInt(projectId)],
     value: parseEther(amount),
   })
-  
-  return useContractWrite(simulationData)
+  const { writeContract, ...write } = useContractWrite()
+
+  return { ...write, write: simulationData ? () => writeContract(simulationData.request) : undefined }
 }
 
 export function useVerifyMilestone(projectId: number, milestoneIndex: number) {
+  const addresses = useContractAddresses()
   const { data: simulationData } = useSimulateContract({
-    address: contractConfig.addresses.projectEscrow as `0x${string}`,
+    address: addresses?.projectEscrow as `0x${string}` | undefined,
     abi: PROJECT_ESCROW_ABI,
     functionName: 'verifyMilestone',
     args: [BigInt(projectId), BigInt(milestoneIndex)],
   })
-  
-  return useContractWrite(simulationData)
+  const { writeContract, ...write } = useContractWrite()
+
+  return { ...write, write: simulationData ? () => writeContract(simulationData.request) : undefined }
 }
 
 export function useMilestoneDetails(projectId: number, milestoneIndex: number) {
+  const addresses = useContractAddresses()
   return useContractRead({
-    address: contractConfig.addresses.projectEscrow as `0x${string}`,
+    address: addresses?.projectEscrow as `0x${string}` | undefined,
     abi: PROJECT_ESCROW_ABI,
     functionName: 'getMilestone',
     args: [BigInt(projectId), BigInt(milestoneIndex)],
   })
 }
 
-export function useIsContractOwner(address?: string) {
+export function useHasRole(role: (typeof ROLES)[keyof typeof ROLES], address?: string) {
+  const addresses = useContractAddresses()
   return useContractRead({
-    address: contractConfig.addresses.projectEscrow as `0x${string}`,
+    address: addresses?.projectEscrow as `0x${string}` | undefined,
     abi: PROJECT_ESCROW_ABI,
-    functionName: 'owner',
-    select: (data: string) => data.toLowerCase() === address?.toLowerCase(),
+    functionName: 'hasRole',
+    args: [role as `0x${string}`, address as `0x${string}`],
+    query: { enabled: !!address },
   })
 }
 
 export function useImpactToken(tokenId: number) {
+  const addresses = useContractAddresses()
   return useContractRead({
-    address: contractConfig.addresses.impactToken as `0x${string}`,
+    address: addresses?.impactToken as `0x${string}` | undefined,
     abi: IMPACT_TOKEN_ABI,
-    functionName: 'tokenMetadata',
+    functionName: 'getTokenMetadata',
     args: [BigInt(tokenId)],
   })
 }
 
 export function useImpactTokensForOwner(ownerAddress: string) {
+  const addresses = useContractAddresses()
   return useContractRead({
-    address: contractConfig.addresses.impactToken as `0x${string}`,
+    address: addresses?.impactToken as `0x${string}` | undefined,
     abi: IMPACT_TOKEN_ABI,
     functionName: 'getTokensByOwner',
     args: [ownerAddress as `0x${string}`],
@@ -0,0 +1,110 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useWeb3 } from '../contexts/web3Context'
+import type { EscrowEventName, ProjectStatus, ProjectWithMilestones } from '../services/contractService'
+
+// Events that change a single milestone
+const MILESTONE_EVENTS: EscrowEventName[] = [
+  'MilestoneEvidenceSubmitted',
+  'MilestoneApproved',
+  'MilestoneApprovalRevoked',
+  'MilestoneRejected',
+  'MilestoneReopened',
+  'MilestoneVerified',
+  'MilestoneDisputed',
+  'DisputeResolved',
+  'MilestonePaid',
+]
+
+// Events that change a project's totals or completion
+const DETAIL_EVENTS: EscrowEventName[] = ['ProjectFunded', 'RefundClaimed', 'MilestonePaid', 'ProjectCompleted']
+
+// Events that change its funding, refund or freeze state
+const STATUS_EVENTS: EscrowEventName[] = [
+  'ProjectFunded',
+  'MilestonePaid',
+  'ProjectCancelled',
+  'ProjectFrozen',
+  'ProjectUnfrozen',
+]
+
+// One project with its milestones and status, kept up to date from escrow events.
+// Each event re-reads only the part of the project it affects. Reads don't need a
+// wallet. initial is the server-rendered snapshot, shown until the first refresh.
+export function useProject(projectId: number, initial?: { project: ProjectWithMilestones; status: ProjectStatus }) {
+  const { readService } = useWeb3()
+  const [project, setProject] = useState<ProjectWithMilestones | null>(initial?.project ?? null)
+  const [status, setStatus] = useState<ProjectStatus | null>(initial?.status ?? null)
+  const [isLoading, setLoading] = useState(!initial)
+  const hasInitial = !!initial
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!readService || !projectId) return
+    const [[details], projectStatus] = await Promise.all([
+      readService.getProjectsPage(projectId - 1, 1),
+      readService.getProjectStatus(projectId),
+    ])
+    setProject(details ?? null)
+    setStatus(projectStatus)
+  }, [readService, projectId])
+
+  useEffect(() => {
+    const load = async () => {
+      if (!readService) return
+      try {
+        // A server-rendered project stays on screen while it refreshes
+        if (!hasInitial) setLoading(true)
+        setError(null)
+        await refresh()
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load project')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [readService, refresh, hasInitial])
+
+  useEffect(() => {
+    if (!readService || !projectId) return
+
+    const refreshDetails = async () => {
+      const details = await readService.getProjectDetails(projectId)
+      setProject((prev) => (prev ? { ...prev, ...details } : prev))
+    }
+    const refreshStatus = async () => {
+      setStatus(await readService.getProjectStatus(projectId))
+    }
+    const refreshMilestone = async (milestoneIndex: number) => {
+      const milestone = await readService.getMilestone(projectId, milestoneIndex)
+      setProject((prev) =>
+        prev
+          ? { ...prev, milestones: prev.milestones.map((m, i) => (i === milestoneIndex ? milestone : m)) }
+          : prev
+      )
+    }
+
+    const names = Array.from(new Set([...MILESTONE_EVENTS, ...DETAIL_EVENTS, ...STATUS_EVENTS]))
+    return readService.onEscrowEvents(
+      names,
+      (name, args) => {
+        const updates: Promise<void>[] = []
+        if ('milestoneIndex' in args) updates.push(refreshMilestone(args.milestoneIndex))
+        if (DETAIL_EVENTS.includes(name)) updates.push(refreshDetails())
+        if (STATUS_EVENTS.includes(name)) updates.push(refreshStatus())
+        Promise.all(updates).catch((err) => console.error(`Error applying ${name}:`, err))
+      },
+      projectId
+    )
+  }, [readService, projectId])
+
+  return {
+    project,
+    status,
+    isLoading,
+    error,
+    refresh,
+  }
+}
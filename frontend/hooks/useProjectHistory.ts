@@ -0,0 +1,55 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useWeb3 } from '../contexts/web3Context'
+import type { EscrowEventName, ProjectHistory } from '../services/contractService'
+
+// Events that add to the history
+const HISTORY_EVENTS: EscrowEventName[] = ['ProjectFunded', 'MilestonePaid', 'ImpactTokenAwarded']
+
+// A project's donations, payouts and impact token, reloaded as new events arrive.
+// initial is the server-rendered history.
+export function useProjectHistory(projectId: number, initial?: ProjectHistory) {
+  const { readService } = useWeb3()
+  const [history, setHistory] = useState<ProjectHistory | null>(initial ?? null)
+  const [isLoading, setLoading] = useState(!initial)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!readService || !projectId) return
+    setHistory(await readService.getProjectHistory(projectId))
+  }, [readService, projectId])
+
+  useEffect(() => {
+    const load = async () => {
+      if (!readService) return
+      try {
+        setError(null)
+        await refresh()
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load project history')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [readService, refresh])
+
+  useEffect(() => {
+    if (!readService || !projectId) return
+    return readService.onEscrowEvents(
+      HISTORY_EVENTS,
+      () => {
+        refresh().catch((err) => console.error('Error refreshing project history:', err))
+      },
+      projectId
+    )
+  }, [readService, projectId, refresh])
+
+  return {
+    history,
+    isLoading,
+    error,
+    refresh,
+  }
+}
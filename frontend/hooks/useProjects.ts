@@ -1,8 +1,17 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { useAccount } from 'wagmi'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { useWeb3 } from '../contexts/web3Context'
+import type {
+  EscrowEventName,
+  FundingToken,
+  ImpactMetric,
+  ImpactMetrics,
+  ListedProject,
+  MilestoneDispute,
+  MilestoneEvidence,
+  MilestoneReview,
+} from '../services/contractService'
 
 export interface Project {
   id: number
@@ -14,45 +23,155 @@ export interface Project {
   fundsRaised: bigint
   isComplete: boolean
   createdAt: bigint
+  milestoneCount: number
+  fundingToken: FundingToken // amounts are in this token's base units
 }
 
 export interface Milestone {
   description: string
   amount: bigint
-  state: number // 0: Pending, 1: Verified, 2: Paid
+  state: number // 0: Pending, 1: Verified, 2: Paid, 3: Rejected, 4: Disputed
+  approvals: number
+  requiredApprovals: number
+  evidence: MilestoneEvidence[]
+  reviews: MilestoneReview[]
+  challengeDeadline: bigint
+  disputes: MilestoneDispute[]
 }
 
+// Projects fetched per batched page request
+const PROJECT_PAGE_SIZE = 100
+
+// Events that change a project's row in the list
+const PROJECT_UPDATE_EVENTS: EscrowEventName[] = [
+  'ProjectCreated',
+  'ProjectFunded',
+  'RefundClaimed',
+  'ProjectCompleted',
+  'ProjectCancelled',
+]
+
+// Events that change a project's milestones, their approvals, evidence or disputes
+const MILESTONE_UPDATE_EVENTS: EscrowEventName[] = [
+  'MilestoneEvidenceSubmitted',
+  'MilestoneApproved',
+  'MilestoneApprovalRevoked',
+  'MilestoneRejected',
+  'MilestoneReopened',
+  'MilestoneVerified',
+  'MilestoneDisputed',
+  'DisputeResolved',
+  'MilestonePaid',
+]
+
+export const MILESTONE_STATE_LABELS = ['Pending', 'Verified', 'Paid', 'Rejected', 'Disputed']
+
+// Actions that report their own loading and error state
+export type ProjectAction = 'fetchMilestones' | 'payMilestone' | 'completeProject'
+
+const IDLE_ACTIONS: Record<ProjectAction, boolean> = {
+  fetchMilestones: false,
+  payMilestone: false,
+  completeProject: false,
+}
+
+const NO_ACTION_ERRORS: Record<ProjectAction, string | null> = {
+  fetchMilestones: null,
+  payMilestone: null,
+  completeProject: null,
+}
+
+const toProject = (p: ListedProject): Project => ({
+  id: Number(p.projectId),
+  name: p.projectName,
+  description: p.description,
+  creator: p.creator,
+  donor: p.donor,
+  totalAmount: p.totalAmount,
+  fundsRaised: p.fundsRaised,
+  isComplete: p.isComplete,
+  createdAt: p.createdAt,
+  milestoneCount: p.milestoneCount,
+  fundingToken: p.fundingToken,
+})
+
 export function useProjects() {
-  const { address } = useAccount()
   const { contractService } = useWeb3()
   const [error, setError] = useState<string | null>(null)
   const [projects, setProjects] = useState<Project[]>([])
   const [isLoading, setLoading] = useState(false)
+  const [milestonesByProject, setMilestonesByProject] = useState<Record<number, Milestone[]>>({})
+  // Read by the event listeners, which only refresh milestones that have been loaded
+  const milestonesRef = useRef(milestonesByProject)
+  milestonesRef.current = milestonesByProject
+  const [actionLoading, setActionLoading] = useState(IDLE_ACTIONS)
+  const [actionErrors, setActionErrors] = useState(NO_ACTION_ERRORS)
+
+  // Load all projects, a page of PROJECT_PAGE_SIZE at a time
+  const loadProjects = useCallback(async () => {
+    if (!contractService) return
+    const count = Number(await contractService.getProjectCount())
+    const list: Project[] = []
+    for (let offset = 0; offset < count; offset += PROJECT_PAGE_SIZE) {
+      const page = await contractService.getProjectsPage(offset, PROJECT_PAGE_SIZE)
+      list.push(...page.map(toProject))
+    }
+    setProjects(list)
+  }, [contractService])
+
+  // Re-read one project and add or replace it in the list. Re-reading rather than
+  // applying event deltas keeps totals right if an event overlaps a full reload.
+  const refreshProject = useCallback(
+    async (projectId: number) => {
+      if (!contractService) return
+      const [listed] = await contractService.getProjectsPage(projectId - 1, 1)
+      if (!listed) return
+      const updated = toProject(listed)
+      setProjects((prev) => {
+        const rest = prev.filter((p) => p.id !== projectId)
+        return [...rest, updated].sort((a, b) => a.id - b.id)
+      })
+    },
+    [contractService]
+  )
+
+  // Run an action while tracking its loading and error state; errors are rethrown
+  const trackAction = useCallback(
+    async <T>(action: ProjectAction, failureMessage: string, run: () => Promise<T>): Promise<T> => {
+      setActionLoading((prev) => ({ ...prev, [action]: true }))
+      setActionErrors((prev) => ({ ...prev, [action]: null }))
+      try {
+        return await run()
+      } catch (err) {
+        console.error(`Error in ${action}:`, err)
+        setActionErrors((prev) => ({ ...prev, [action]: err instanceof Error ? err.message : failureMessage }))
+        throw err
+      } finally {
+        setActionLoading((prev) => ({ ...prev, [action]: false }))
+      }
+    },
+    []
+  )
+
+  // Load a project's milestones into milestonesByProject. Returns [] on failure.
+  const fetchMilestones = useCallback(
+    (projectId: number): Promise<Milestone[]> =>
+      trackAction('fetchMilestones', 'Failed to load milestones', async () => {
+        if (!contractService) throw new Error('Wallet not connected')
+        const milestones = await contractService.getMilestones(projectId)
+        setMilestonesByProject((prev) => ({ ...prev, [projectId]: milestones }))
+        return milestones
+      }).catch(() => []),
+    [contractService, trackAction]
+  )
 
-  // Load all projects
   useEffect(() => {
     const load = async () => {
       if (!contractService) return
       try {
         setLoading(true)
         setError(null)
-        const count: number = await contractService.getProjectCount()
-        const list: Project[] = []
-        for (let id = 1; id <= Number(count); id++) {
-          const p: any = await contractService.getProjectDetails(id)
-          list.push({
-            id: Number(p.projectId ?? id),
-            name: p.projectName,
-            description: p.description,
-            creator: p.creator,
-            donor: p.donor,
-            totalAmount: p.totalAmount,
-            fundsRaised: p.fundsRaised,
-            isComplete: p.isComplete,
-            createdAt: p.createdAt,
-          })
-        }
-        setProjects(list)
+        await loadProjects()
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Failed to load projects')
       } finally {
@@ -60,14 +179,37 @@ export function useProjects() {
       }
     }
     load()
-  }, [contractService])
+  }, [contractService, loadProjects])
+
+  // Keep the list live: new projects, donations, refunds and status changes, and
+  // loaded milestones as other verifiers, the NGO or donors act on them. Milestone
+  // refreshes run in the background, so they don't touch the fetchMilestones state.
+  useEffect(() => {
+    if (!contractService) return
+    const refreshMilestones = (projectId: number) => {
+      if (!milestonesRef.current[projectId]) return
+      contractService
+        .getMilestones(projectId)
+        .then((milestones) => setMilestonesByProject((prev) => ({ ...prev, [projectId]: milestones })))
+        .catch((err) => console.error('Error refreshing milestones:', err))
+    }
+    return contractService.onEscrowEvents([...PROJECT_UPDATE_EVENTS, ...MILESTONE_UPDATE_EVENTS], (name, { projectId }) => {
+      if (PROJECT_UPDATE_EVENTS.includes(name)) {
+        refreshProject(projectId).catch((err) => console.error('Error refreshing project:', err))
+      }
+      if (MILESTONE_UPDATE_EVENTS.includes(name)) refreshMilestones(projectId)
+    })
+  }, [contractService, refreshProject])
 
   const handleCreateProject = async (
     ngoAddress: string,
     milestoneAmounts: string[],
     milestoneDescriptions: string[],
     projectName: string,
-    description: string
+    description: string,
+    fundingDeadline: number,
+    impactMetrics: ImpactMetric[],
+    fundingToken?: string
   ) => {
     try {
       console.log('Creating project with params:', {
@@ -75,36 +217,29 @@ export function useProjects() {
         milestoneAmounts,
         milestoneDescriptions,
         projectName,
-        description
+        description,
+        fundingDeadline,
+        impactMetrics,
+        fundingToken
       })
 
       setError(null)
       if (!contractService) throw new Error('Wallet not connected')
+      if (!(await contractService.isNGOActive(ngoAddress))) {
+        throw new Error('NGO address is not a verified organisation in the NGO registry')
+      }
       const receipt = await contractService.createProject(
         ngoAddress,
         milestoneAmounts,
         milestoneDescriptions,
         projectName,
-        description
+        description,
+        fundingDeadline,
+        impactMetrics,
+        fundingToken
       )
       // Reload list after success
-      const count: number = await contractService.getProjectCount()
-      const list: Project[] = []
-      for (let id = 1; id <= Number(count); id++) {
-        const p: any = await contractService.getProjectDetails(id)
-        list.push({
-          id: Number(p.projectId ?? id),
-          name: p.projectName,
-          description: p.description,
-          creator: p.creator,
-          donor: p.donor,
-          totalAmount: p.totalAmount,
-          fundsRaised: p.fundsRaised,
-          isComplete: p.isComplete,
-          createdAt: p.createdAt,
-        })
-      }
-      setProjects(list)
+      await loadProjects()
       return receipt
     } catch (err) {
       console.error('Error creating project:', err)
@@ -119,30 +254,149 @@ export function useProjects() {
       setError(null)
       if (!contractService) throw new Error('Wallet not connected')
       await contractService.donateToProject(projectId, amount)
+      // Don't wait for the ProjectFunded poll to show the new total
+      await refreshProject(projectId)
     } catch (err) {
       console.error('Error donating:', err)
       setError(err instanceof Error ? err.message : 'Failed to donate')
     }
   }
 
-  // Verify milestone
-  const handleVerifyMilestone = async (projectId: number, milestoneIndex: number) => {
+  // Verify milestone, optionally recording why
+  const handleVerifyMilestone = async (projectId: number, milestoneIndex: number, reason?: string) => {
     try {
       setError(null)
       if (!contractService) throw new Error('Wallet not connected')
-      await contractService.verifyMilestone(projectId, milestoneIndex)
+      if (reason) {
+        await contractService.approveMilestone(projectId, milestoneIndex, reason)
+      } else {
+        await contractService.verifyMilestone(projectId, milestoneIndex)
+      }
     } catch (err) {
       console.error('Error verifying milestone:', err)
       setError(err instanceof Error ? err.message : 'Failed to verify milestone')
     }
   }
 
+  // Reject milestone evidence
+  const handleRejectMilestone = async (projectId: number, milestoneIndex: number, reason: string) => {
+    try {
+      setError(null)
+      if (!contractService) throw new Error('Wallet not connected')
+      await contractService.rejectMilestone(projectId, milestoneIndex, reason)
+    } catch (err) {
+      console.error('Error rejecting milestone:', err)
+      setError(err instanceof Error ? err.message : 'Failed to reject milestone')
+    }
+  }
+
+  // Challenge a verified milestone during its challenge window
+  const handleRaiseDispute = async (projectId: number, milestoneIndex: number, reason: string) => {
+    try {
+      setError(null)
+      if (!contractService) throw new Error('Wallet not connected')
+      await contractService.raiseDispute(projectId, milestoneIndex, reason)
+    } catch (err) {
+      console.error('Error raising dispute:', err)
+      setError(err instanceof Error ? err.message : 'Failed to raise dispute')
+    }
+  }
+
+  // Arbitrate a disputed milestone
+  const handleResolveDispute = async (
+    projectId: number,
+    milestoneIndex: number,
+    upheld: boolean,
+    resolution: string
+  ) => {
+    try {
+      setError(null)
+      if (!contractService) throw new Error('Wallet not connected')
+      await contractService.resolveDispute(projectId, milestoneIndex, upheld, resolution)
+    } catch (err) {
+      console.error('Error resolving dispute:', err)
+      setError(err instanceof Error ? err.message : 'Failed to resolve dispute')
+    }
+  }
+
+  // Submit milestone evidence
+  const handleSubmitEvidence = async (
+    projectId: number,
+    milestoneIndex: number,
+    uri: string,
+    contentHash?: string
+  ) => {
+    try {
+      setError(null)
+      if (!contractService) throw new Error('Wallet not connected')
+      await contractService.submitMilestoneEvidence(projectId, milestoneIndex, uri, contentHash)
+    } catch (err) {
+      console.error('Error submitting evidence:', err)
+      setError(err instanceof Error ? err.message : 'Failed to submit evidence')
+    }
+  }
+
+  // Release a verified milestone's funds to the NGO (treasurer only)
+  const handlePayMilestone = (projectId: number, milestoneIndex: number) =>
+    trackAction('payMilestone', 'Failed to pay milestone', async () => {
+      if (!contractService) throw new Error('Wallet not connected')
+      const receipt = await contractService.payMilestone(projectId, milestoneIndex)
+      await Promise.all([refreshProject(projectId), fetchMilestones(projectId)])
+      return receipt
+    })
+
+  // Complete a fully paid project and mint its ImpactToken (verifier only)
+  const handleCompleteProject = (projectId: number, imageUri: string) =>
+    trackAction('completeProject', 'Failed to complete project', async () => {
+      if (!contractService) throw new Error('Wallet not connected')
+      const receipt = await contractService.completeProject(projectId, imageUri)
+      await Promise.all([refreshProject(projectId), fetchMilestones(projectId)])
+      return receipt
+    })
+
+  // Load a project's declared impact metrics and any reported values
+  const fetchImpactMetrics = async (projectId: number): Promise<ImpactMetrics | null> => {
+    try {
+      if (!contractService) throw new Error('Wallet not connected')
+      return await contractService.getImpactMetrics(projectId)
+    } catch (err) {
+      console.error('Error fetching impact metrics:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch impact metrics')
+      return null
+    }
+  }
+
+  // Report achieved impact, one value per declared metric
+  const handleReportImpact = async (projectId: number, actualValues: bigint[]) => {
+    try {
+      setError(null)
+      if (!contractService) throw new Error('Wallet not connected')
+      await contractService.reportImpact(projectId, actualValues)
+    } catch (err) {
+      console.error('Error reporting impact:', err)
+      setError(err instanceof Error ? err.message : 'Failed to report impact')
+    }
+  }
+
   return {
     projects,
     isLoading,
     error,
+    milestonesByProject,
+    actionLoading,
+    actionErrors,
+    refreshProject,
+    fetchMilestones,
     createProject: handleCreateProject,
     donateToProject: handleDonation,
     verifyMilestone: handleVerifyMilestone,
+    rejectMilestone: handleRejectMilestone,
+    submitMilestoneEvidence: handleSubmitEvidence,
+    raiseDispute: handleRaiseDispute,
+    resolveDispute: handleResolveDispute,
+    payMilestone: handlePayMilestone,
+    completeProject: handleCompleteProject,
+    fetchImpactMetrics,
+    reportImpact: handleReportImpact,
   }
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useWeb3 } from '../contexts/web3Context'
+import type { Roles } from '../services/contractService'
+
+const NO_ROLES: Roles = {
+  isAdmin: false,
+  isVerifier: false,
+  isTreasurer: false,
+  isRegistrar: false,
+  isPauser: false,
+}
+
+// ProjectEscrow roles for the connected account. Pass a project ID to also
+// pick up verifiers registered for that project only.
+export function useRoles(projectId?: number) {
+  const { address, contractService } = useWeb3()
+  const [roles, setRoles] = useState<Roles>(NO_ROLES)
+  const [isProjectVerifier, setIsProjectVerifier] = useState(false)
+  const [isLoading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      if (!contractService || !address) {
+        setRoles(NO_ROLES)
+        setIsProjectVerifier(false)
+        return
+      }
+      try {
+        setLoading(true)
+        setRoles(await contractService.getRoles(address))
+        setIsProjectVerifier(
+          projectId !== undefined && (await contractService.isVerifier(projectId, address))
+        )
+      } catch (err) {
+        console.error('Error loading roles:', err)
+        setRoles(NO_ROLES)
+        setIsProjectVerifier(false)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [contractService, address, projectId])
+
+  return {
+    roles,
+    // Global verifiers, or verifiers added for the given project
+    canVerify: roles.isVerifier || isProjectVerifier,
+    isLoading,
+  }
+}
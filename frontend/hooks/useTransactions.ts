@@ -0,0 +1,22 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { type TrackedTransaction, transactionManager } from '../services/transactionManager'
+
+const isPending = (tx: TrackedTransaction) => tx.status === 'confirming' || tx.status === 'submitted'
+
+// Transactions sent from this browser, including ones still pending from before a reload
+export function useTransactions() {
+  // Start empty so server and client render the same, then load from storage
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([])
+
+  useEffect(() => {
+    setTransactions(transactionManager.getTransactions())
+    return transactionManager.subscribe(setTransactions)
+  }, [])
+
+  return {
+    transactions,
+    pending: transactions.filter(isPending),
+  }
+}
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseEther, parseUnits } from 'viem'
+import { NATIVE_FUNDING_TOKEN, type PortfolioProject } from '../services/contractService'
+import { portfolioToCsv, portfolioToJson } from './portfolioExport'
+
+const DONOR = '0x90F79bf6EB2c4f870365E785982E1f101E93b906'
+const NGO = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+
+const wells: PortfolioProject = {
+  projectId: 1,
+  projectName: 'Village wells',
+  creator: NGO,
+  fundingToken: NATIVE_FUNDING_TOKEN,
+  donated: parseEther('1.5'),
+  donationCount: 2,
+  lastDonatedAt: 1700000000,
+  released: parseEther('0.5'),
+  refunded: BigInt(0),
+  escrowed: parseEther('1'),
+  isComplete: false,
+  isCancelled: false,
+  impactTokenId: null,
+}
+
+const meals: PortfolioProject = {
+  ...wells,
+  projectId: 2,
+  projectName: 'Meals, "hot" and fresh\nevery day',
+  fundingToken: {
+    address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    symbol: 'USDC',
+    decimals: 6,
+    isNative: false,
+  },
+  donated: parseUnits('250', 6),
+  donationCount: 1,
+  released: parseUnits('250', 6),
+  escrowed: BigInt(0),
+  isComplete: true,
+  impactTokenId: BigInt(7),
+}
+
+describe('portfolioToCsv', () => {
+  it('writes a header and one row per project in its own token', () => {
+    const [header, row, end] = portfolioToCsv([wells]).split('\n')
+    assert.equal(
+      header,
+      'projectId,projectName,creator,token,tokenAddress,donated,donationCount,released,refunded,escrowed,status,impactTokenId,lastDonatedAt'
+    )
+    assert.equal(
+      row,
+      `1,Village wells,${NGO},ETH,0x0000000000000000000000000000000000000000,1.5,2,0.5,0,1,Active,,2023-11-14T22:13:20.000Z`
+    )
+    assert.equal(end, '')
+  })
+
+  it('quotes fields with commas, quotes or newlines and doubles the quotes', () => {
+    const csv = portfolioToCsv([meals])
+    assert.ok(csv.includes('2,"Meals, ""hot"" and fresh\nevery day",'))
+    assert.ok(csv.includes(',USDC,0x5FbDB2315678afecb367f032d93F642f64180aa3,250,1,250,0,0,Complete,7,'))
+  })
+
+  it('keeps text a spreadsheet would run as a formula literal', () => {
+    // The projectName field of the only row
+    const nameField = (projectName: string) =>
+      portfolioToCsv([{ ...wells, projectName }]).split('\n')[1].slice('1,'.length).split(`,${NGO},`)[0]
+
+    assert.equal(nameField('=HYPERLINK("https://example.com")'), `"'=HYPERLINK(""https://example.com"")"`)
+    assert.equal(nameField('+1'), "'+1")
+    assert.equal(nameField('-1'), "'-1")
+    assert.equal(nameField('@SUM(A1)'), "'@SUM(A1)")
+    assert.equal(nameField('\tTabbed'), "'\tTabbed")
+    assert.equal(nameField('\rReturn'), `"'\rReturn"`)
+    assert.equal(nameField('Wells = water'), 'Wells = water')
+  })
+
+  it('writes only the header for an empty portfolio', () => {
+    assert.equal(portfolioToCsv([]).split('\n').length, 2)
+  })
+})
+
+describe('portfolioToJson', () => {
+  it('exports decimal amounts and the donor', () => {
+    const exported = JSON.parse(portfolioToJson(DONOR, [wells, meals]))
+    assert.equal(exported.donor, DONOR)
+    assert.ok(!Number.isNaN(Date.parse(exported.exportedAt)))
+    assert.deepEqual(
+      exported.projects.map((p: Record<string, string>) => [p.projectName, p.token, p.donated, p.status, p.impactTokenId]),
+      [
+        ['Village wells', 'ETH', '1.5', 'Active', ''],
+        [meals.projectName, 'USDC', '250', 'Complete', '7'],
+      ]
+    )
+  })
+})
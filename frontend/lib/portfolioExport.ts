@@ -0,0 +1,73 @@
+import { formatUnits } from 'viem'
+import type { PortfolioProject } from '../services/contractService'
+
+// Exports of a donor's portfolio for their own records. Amounts are decimal strings
+// in each project's funding token, named in the token column.
+
+export const portfolioStatus = (p: PortfolioProject) =>
+  p.isComplete ? 'Complete' : p.isCancelled ? 'Cancelled' : 'Active'
+
+type PortfolioRecord = ReturnType<typeof toRecord>
+
+function toRecord(p: PortfolioProject) {
+  const amount = (value: bigint) => formatUnits(value, p.fundingToken.decimals)
+  return {
+    projectId: p.projectId,
+    projectName: p.projectName,
+    creator: p.creator,
+    token: p.fundingToken.symbol,
+    tokenAddress: p.fundingToken.address,
+    donated: amount(p.donated),
+    donationCount: p.donationCount,
+    released: amount(p.released),
+    refunded: amount(p.refunded),
+    escrowed: amount(p.escrowed),
+    status: portfolioStatus(p),
+    impactTokenId: p.impactTokenId === null ? '' : p.impactTokenId.toString(),
+    lastDonatedAt: new Date(p.lastDonatedAt * 1000).toISOString(),
+  }
+}
+
+// Project names and token symbols are chosen by whoever created them, so text a
+// spreadsheet would run as a formula is prefixed with ' to keep it literal
+const csvField = (value: string | number) => {
+  const text = /^[=+\-@\t\r]/.test(String(value)) ? `'${value}` : String(value)
+  // Quote every field that could contain a delimiter, quote or newline
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const CSV_COLUMNS: (keyof PortfolioRecord)[] = [
+  'projectId',
+  'projectName',
+  'creator',
+  'token',
+  'tokenAddress',
+  'donated',
+  'donationCount',
+  'released',
+  'refunded',
+  'escrowed',
+  'status',
+  'impactTokenId',
+  'lastDonatedAt',
+]
+
+export function portfolioToCsv(projects: PortfolioProject[]): string {
+  const rows = projects.map(toRecord).map((r) => CSV_COLUMNS.map((c) => csvField(r[c])).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
+
+export function portfolioToJson(donor: string, projects: PortfolioProject[]): string {
+  return JSON.stringify({ donor, exportedAt: new Date().toISOString(), projects: projects.map(toRecord) }, null, 2)
+}
+
+// Save content as a file through the browser
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking straight after the click can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseEther, parseUnits } from 'viem'
+import { NATIVE_FUNDING_TOKEN, type FundingToken } from '../services/contractService'
+import {
+  DEFAULT_PROJECT_FILTERS,
+  type ProjectFilters,
+  filterProjects,
+  fundingStatus,
+  parseProjectFilters,
+  toSearchParams,
+} from './projectSearch'
+
+const USDC: FundingToken = {
+  address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  symbol: 'USDC',
+  decimals: 6,
+  isNative: false,
+}
+
+const NGO = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const OTHER_NGO = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'
+
+const NOW = BigInt(1700000000)
+const DAY = BigInt(86400)
+
+let nextId = 1
+const project = (fields: {
+  name: string
+  goal: bigint
+  raised?: bigint
+  token?: FundingToken
+  creator?: string
+  deadline?: bigint
+  isComplete?: boolean
+  isCancelled?: boolean
+  isFrozen?: boolean
+}) => {
+  const projectId = BigInt(nextId++)
+  return {
+    projectId,
+    creator: fields.creator ?? NGO,
+    totalAmount: fields.goal,
+    fundsRaised: fields.raised ?? BigInt(0),
+    isComplete: fields.isComplete ?? false,
+    projectName: fields.name,
+    description: `Description of ${fields.name}`,
+    createdAt: projectId,
+    fundingToken: fields.token ?? NATIVE_FUNDING_TOKEN,
+    fundingDeadline: fields.deadline ?? NOW + DAY,
+    isCancelled: fields.isCancelled ?? false,
+    isFrozen: fields.isFrozen ?? false,
+  }
+}
+
+const wells = project({ name: 'Village wells', goal: parseEther('2'), raised: parseEther('1') })
+const school = project({ name: 'School roof', goal: parseEther('5'), raised: parseEther('5'), creator: OTHER_NGO })
+const meals = project({ name: 'School meals', goal: parseUnits('500', 6), raised: parseUnits('450', 6), token: USDC })
+const clinic = project({ name: 'Clinic', goal: parseUnits('3', 6), isComplete: true, token: USDC })
+const projects = [wells, school, meals, clinic]
+
+const names = (filters: Partial<ProjectFilters>) =>
+  filterProjects([...projects], { ...DEFAULT_PROJECT_FILTERS, ...filters }, NOW).map((p) => p.projectName)
+
+describe('project filters in the URL', () => {
+  it('round-trips every filter through the query string', () => {
+    const filters: ProjectFilters = {
+      query: 'clean water',
+      status: 'open',
+      creator: NGO,
+      token: USDC.address,
+      minGoal: '1.5',
+      maxGoal: '250',
+      sort: 'largest',
+    }
+    const query = toSearchParams(filters).toString()
+    assert.equal(
+      query,
+      `q=clean+water&status=open&creator=${NGO}&token=${USDC.address}&min=1.5&max=250&sort=largest`
+    )
+    assert.deepEqual(parseProjectFilters(new URLSearchParams(query)), filters)
+  })
+
+  it('leaves defaults out of the URL', () => {
+    assert.equal(toSearchParams(DEFAULT_PROJECT_FILTERS).toString(), '')
+  })
+
+  it('falls back to the defaults for malformed values', () => {
+    const params = new URLSearchParams('status=pending&sort=cheapest&min=lots&max=1e5&token=usdc')
+    assert.deepEqual(parseProjectFilters(params), DEFAULT_PROJECT_FILTERS)
+  })
+})
+
+describe('filterProjects', () => {
+  it('matches every search term in the name or description', () => {
+    assert.deepEqual(names({ query: 'school' }), ['School meals', 'School roof'])
+    assert.deepEqual(names({ query: 'description roof' }), ['School roof'])
+  })
+
+  it('filters by funding status, creator and token', () => {
+    assert.deepEqual(names({ status: 'funded' }), ['School roof'])
+    assert.deepEqual(names({ status: 'complete' }), ['Clinic'])
+    assert.deepEqual(names({ creator: OTHER_NGO.toLowerCase() }), ['School roof'])
+    assert.deepEqual(names({ token: USDC.address.toLowerCase() }), ['Clinic', 'School meals'])
+  })
+
+  it("applies goal bounds in each project's own token", () => {
+    // 4 ETH and 4 USDC, not 4e18 base units of both
+    assert.deepEqual(names({ minGoal: '4' }), ['School meals', 'School roof'])
+    assert.deepEqual(names({ maxGoal: '4' }), ['Clinic', 'Village wells'])
+    assert.deepEqual(names({ minGoal: '100', token: USDC.address }), ['School meals'])
+  })
+
+  it('sorts newest first by default', () => {
+    assert.deepEqual(names({}), ['Clinic', 'School meals', 'School roof', 'Village wells'])
+  })
+
+  it('sorts the largest goals first within each funding token', () => {
+    assert.deepEqual(names({ sort: 'largest' }), ['School roof', 'Village wells', 'School meals', 'Clinic'])
+  })
+
+  it('sorts projects still raising by progress, then funded and complete ones', () => {
+    assert.deepEqual(names({ sort: 'closest' }), ['School meals', 'Village wells', 'School roof', 'Clinic'])
+  })
+
+  it('gives projects that no longer take donations their own status', () => {
+    const goal = parseEther('1')
+    const expired = project({ name: 'Expired', goal, raised: parseEther('0.5'), deadline: NOW - DAY })
+    const cancelled = project({ name: 'Cancelled', goal, isCancelled: true })
+    const frozen = project({ name: 'Frozen', goal, raised: goal, isFrozen: true })
+    const lastDay = project({ name: 'Last day', goal, deadline: NOW })
+    const funded = project({ name: 'Funded late', goal, raised: goal, deadline: NOW - DAY })
+
+    assert.equal(fundingStatus(expired, NOW), 'expired')
+    assert.equal(fundingStatus(cancelled, NOW), 'cancelled')
+    assert.equal(fundingStatus(frozen, NOW), 'frozen')
+    assert.equal(fundingStatus(lastDay, NOW), 'open')
+    assert.equal(fundingStatus(funded, NOW), 'funded')
+
+    const catalogue = [expired, cancelled, frozen, lastDay, funded]
+    const open = filterProjects(catalogue, { ...DEFAULT_PROJECT_FILTERS, status: 'open' }, NOW)
+    assert.deepEqual(open.map((p) => p.projectName), ['Last day'])
+    const closest = filterProjects(catalogue, { ...DEFAULT_PROJECT_FILTERS, sort: 'closest' }, NOW)
+    assert.deepEqual(closest.map((p) => p.projectName), ['Last day', 'Funded late', 'Frozen', 'Expired', 'Cancelled'])
+  })
+})
@@ -0,0 +1,187 @@
+import { isAddress, parseUnits } from 'viem'
+import type { ListedProject } from '../services/contractService'
+
+// Search, filter and sort options for the project catalogue, kept in the URL so a
+// filtered view can be shared
+
+export type FundingStatus = 'open' | 'funded' | 'expired' | 'frozen' | 'cancelled' | 'complete'
+
+export type ProjectSort = 'newest' | 'closest' | 'largest'
+
+export const FUNDING_STATUS_LABELS: Record<FundingStatus, string> = {
+  open: 'Open for funding',
+  funded: 'Fully funded',
+  expired: 'Funding expired',
+  frozen: 'Frozen for review',
+  cancelled: 'Cancelled',
+  complete: 'Complete',
+}
+
+export const PROJECT_SORT_LABELS: Record<ProjectSort, string> = {
+  newest: 'Newest',
+  closest: 'Closest to goal',
+  largest: 'Largest goal',
+}
+
+// The project fields search and sorting look at
+type SearchableProject = Pick<
+  ListedProject,
+  | 'projectId'
+  | 'creator'
+  | 'totalAmount'
+  | 'fundsRaised'
+  | 'isComplete'
+  | 'projectName'
+  | 'description'
+  | 'createdAt'
+  | 'fundingToken'
+  | 'fundingDeadline'
+  | 'isCancelled'
+  | 'isFrozen'
+>
+
+export interface ProjectFilters {
+  query: string
+  status: FundingStatus | ''
+  creator: string
+  // Funding token address; empty for any token
+  token: string
+  // Goal range in each project's funding token, as typed; empty for no bound
+  minGoal: string
+  maxGoal: string
+  sort: ProjectSort
+}
+
+export const DEFAULT_PROJECT_FILTERS: ProjectFilters = {
+  query: '',
+  status: '',
+  creator: '',
+  token: '',
+  minGoal: '',
+  maxGoal: '',
+  sort: 'newest',
+}
+
+// Query parameter for each filter
+const PARAMS: Record<keyof ProjectFilters, string> = {
+  query: 'q',
+  status: 'status',
+  creator: 'creator',
+  token: 'token',
+  minGoal: 'min',
+  maxGoal: 'max',
+  sort: 'sort',
+}
+
+// Unknown or malformed values fall back to the defaults
+export function parseProjectFilters(params: URLSearchParams): ProjectFilters {
+  const get = (key: keyof ProjectFilters) => params.get(PARAMS[key]) ?? ''
+  const status = get('status')
+  const sort = get('sort')
+  return {
+    query: get('query'),
+    status: Object.keys(FUNDING_STATUS_LABELS).includes(status) ? (status as FundingStatus) : '',
+    creator: get('creator'),
+    token: isAddress(get('token')) ? get('token') : '',
+    minGoal: toAmount(get('minGoal'), MAX_DECIMALS) === null ? '' : get('minGoal'),
+    maxGoal: toAmount(get('maxGoal'), MAX_DECIMALS) === null ? '' : get('maxGoal'),
+    sort: Object.keys(PROJECT_SORT_LABELS).includes(sort) ? (sort as ProjectSort) : DEFAULT_PROJECT_FILTERS.sort,
+  }
+}
+
+// Only non-default filters are written, so the unfiltered view has a clean URL
+export function toSearchParams(filters: ProjectFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(PARAMS) as (keyof ProjectFilters)[]) {
+    const value = filters[key].trim()
+    if (value && value !== DEFAULT_PROJECT_FILTERS[key]) params.set(PARAMS[key], value)
+  }
+  return params
+}
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000))
+
+// Only 'open' projects accept donations. A project past its deadline short of
+// its goal is 'expired', as the escrow then opens refunds instead
+export function fundingStatus(project: SearchableProject, now = nowSeconds()): FundingStatus {
+  if (project.isComplete) return 'complete'
+  if (project.isCancelled) return 'cancelled'
+  if (project.isFrozen) return 'frozen'
+  if (project.fundsRaised >= project.totalAmount) return 'funded'
+  return now > project.fundingDeadline ? 'expired' : 'open'
+}
+
+// Progress in basis points, for sorting without losing precision
+function progress(project: SearchableProject): bigint {
+  if (project.totalAmount === BigInt(0)) return BigInt(0)
+  return (project.fundsRaised * BigInt(10000)) / project.totalAmount
+}
+
+// Amounts are validated at the finest precision a funding token uses
+const MAX_DECIMALS = 18
+
+// A typed amount in base units of a token with these decimals
+function toAmount(value: string, decimals: number): bigint | null {
+  if (!value.trim()) return null
+  try {
+    return parseUnits(value.trim(), decimals)
+  } catch {
+    return null
+  }
+}
+
+const compare = (a: bigint, b: bigint) => (a > b ? 1 : a < b ? -1 : 0)
+
+// Goals in different tokens can't be compared, so "largest" groups projects by
+// funding token first
+const compareTokens = (a: SearchableProject, b: SearchableProject) =>
+  a.fundingToken.symbol.localeCompare(b.fundingToken.symbol) ||
+  a.fundingToken.address.toLowerCase().localeCompare(b.fundingToken.address.toLowerCase())
+
+// For "closest to goal": projects still raising come first, then ones that reached
+// it, then ones no longer raising at all
+const STATUS_RANK: Record<FundingStatus, number> = {
+  open: 0,
+  funded: 1,
+  complete: 2,
+  frozen: 3,
+  expired: 4,
+  cancelled: 5,
+}
+
+export function filterProjects<T extends SearchableProject>(
+  projects: T[],
+  filters: ProjectFilters,
+  now = nowSeconds()
+): T[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean)
+  const creator = filters.creator.trim().toLowerCase()
+  const token = filters.token.trim().toLowerCase()
+
+  const matches = projects.filter((p) => {
+    const text = `${p.projectName} ${p.description}`.toLowerCase()
+    if (!terms.every((term) => text.includes(term))) return false
+    if (filters.status && fundingStatus(p, now) !== filters.status) return false
+    if (creator && p.creator.toLowerCase() !== creator) return false
+    if (token && p.fundingToken.address.toLowerCase() !== token) return false
+    const minGoal = toAmount(filters.minGoal, p.fundingToken.decimals)
+    const maxGoal = toAmount(filters.maxGoal, p.fundingToken.decimals)
+    if (minGoal !== null && p.totalAmount < minGoal) return false
+    if (maxGoal !== null && p.totalAmount > maxGoal) return false
+    return true
+  })
+
+  return matches.sort((a, b) => {
+    switch (filters.sort) {
+      case 'closest':
+        return (
+          STATUS_RANK[fundingStatus(a, now)] - STATUS_RANK[fundingStatus(b, now)] ||
+          compare(progress(b), progress(a))
+        )
+      case 'largest':
+        return compareTokens(a, b) || compare(b.totalAmount, a.totalAmount)
+      default:
+        return compare(b.createdAt, a.createdAt) || compare(b.projectId, a.projectId)
+    }
+  })
+}
@@ -0,0 +1,21 @@
+import { contractConfig } from '../config/contracts'
+
+// Schemes a link built from on-chain data may use. Evidence and NGO profile URIs are
+// written by anyone, so javascript:, data: and the like are shown as text instead.
+const ALLOWED_PROTOCOLS = ['http:', 'https:', 'ipfs:']
+
+// The URI as a link target, with ipfs:// rewritten to the configured gateway; null if
+// it must not be linked
+export function safeExternalUrl(uri: string): string | null {
+  let url: URL
+  try {
+    url = new URL(uri.trim())
+  } catch {
+    return null
+  }
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) return null
+  if (url.protocol === 'ipfs:') {
+    return `${contractConfig.ipfsGateway}${uri.trim().replace(/^ipfs:(\/\/)?(ipfs\/)?/i, '')}`
+  }
+  return url.href
+}
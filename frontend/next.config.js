@@ -1,7 +1,55 @@
+const path = require('path');
+const { polygon, polygonAmoy } = require('viem/chains');
+
+// Origins the browser reads from directly: the RPC endpoints of config/chains.ts and
+// the event indexer (same env vars and defaults), a remote deployments manifest and WalletConnect
+function connectSources() {
+  const urls = [
+    process.env.NEXT_PUBLIC_RPC_URL || 'http://127.0.0.1:8545',
+    process.env.NEXT_PUBLIC_AMOY_RPC_URL || polygonAmoy.rpcUrls.default.http[0],
+    process.env.NEXT_PUBLIC_POLYGON_RPC_URL || polygon.rpcUrls.default.http[0],
+    process.env.NEXT_PUBLIC_INDEXER_URL || 'http://127.0.0.1:4000',
+    process.env.NEXT_PUBLIC_DEPLOYMENTS_URL,
+  ];
+  const origins = urls.filter((url) => /^https?:\/\//.test(url || '')).map((url) => new URL(url).origin);
+  return [
+    "'self'",
+    ...new Set(origins),
+    'https://*.walletconnect.com',
+    'wss://*.walletconnect.com',
+    'https://*.walletconnect.org',
+    'wss://*.walletconnect.org',
+    'https://*.web3modal.org',
+  ];
+}
+
+// Impact token images can be hosted anywhere; ipfs:// ones load through the gateway
+function imageSources() {
+  const gateway = new URL(process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://ipfs.io/ipfs/').origin;
+  return ["'self'", 'data:', 'blob:', 'https:', ...(gateway.startsWith('https:') ? [] : [gateway])];
+}
+
+const contentSecurityPolicy = [
+  "default-src 'self'",
+  "script-src 'self' 'unsafe-eval' 'unsafe-inline'",
+  "style-src 'self' 'unsafe-inline'",
+  `connect-src ${connectSources().join(' ')}`,
+  `img-src ${imageSources().join(' ')}`,
+].join('; ');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    // Contract bindings are generated into ../typechain-types by `npx hardhat compile`
+    externalDir: true,
+  },
+  webpack: (config) => {
+    // The generated bindings import ethers; resolve it to our copy so only one is bundled
+    config.resolve.alias.ethers = path.resolve(__dirname, 'node_modules/ethers');
+    return config;
+  },
   images: {
     domains: ['localhost', 'ipfs.io', 'gateway.pinata.cloud'],
   },
@@ -12,7 +60,7 @@ const nextConfig = {
         headers: [
           {
             key: 'Content-Security-Policy',
-            value: "default-src 'self'; script-src 'self' 'unsafe-eval' 'unsafe-inline'; style-src 'self' 'unsafe-inline';"
+            value: contentSecurityPolicy,
           }
         ]
       }
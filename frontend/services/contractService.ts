@@ -1,117 +1,1177 @@
-import { Contract, type Provider, type Signer, parseEther } from 'ethers'
-import { contractConfig } from '../config/contracts'
-import { IMPACT_TOKEN_ABI, PROJECT_ESCROW_ABI } from '../lib/contracts'
+import {
+  type BaseContract,
+  type ContractEventPayload,
+  type ContractTransactionResponse,
+  type EventFragment,
+  type Log,
+  type Provider,
+  type Result,
+  type Signer,
+  ZeroAddress,
+  ZeroHash,
+  id,
+  parseEther,
+  parseUnits,
+  toBeHex,
+  zeroPadValue,
+} from 'ethers'
+import {
+  type DonationCertificate as DonationCertificateContract,
+  DonationCertificate__factory,
+  IERC20Metadata__factory,
+  type IMulticall3,
+  IMulticall3__factory,
+  type ImpactToken,
+  ImpactToken__factory,
+  type NGORegistry,
+  NGORegistry__factory,
+  type ProjectEscrow,
+  ProjectEscrow__factory,
+} from '@impactchain/contracts'
+import type { ContractAddresses } from '../config/deployments'
+import { ROLES } from '../lib/contracts'
+import { indexerService } from './indexerService'
+import { type TransactionAction, transactionManager } from './transactionManager'
+
+// Decoded return values of the escrow's project and milestone views
+type ProjectOutput = Awaited<ReturnType<ProjectEscrow['getProject']['staticCall']>>
+type MilestoneOutput = Awaited<ReturnType<ProjectEscrow['getMilestone']['staticCall']>>
+type MilestoneApprovalsOutput = Awaited<ReturnType<ProjectEscrow['getMilestoneApprovals']['staticCall']>>
+type MilestoneDisputesOutput = Awaited<ReturnType<ProjectEscrow['getMilestoneDisputes']['staticCall']>>
+type ProjectStatusOutput = Awaited<ReturnType<ProjectEscrow['getProjectStatus']['staticCall']>>
+
+// Reads per Multicall3 request, small enough to stay under RPC eth_call gas caps
+const MULTICALL_BATCH_SIZE = 100
+
+export interface ProjectDetails {
+  projectId: bigint
+  creator: string
+  donor: string
+  totalAmount: bigint
+  fundsRaised: bigint
+  isComplete: boolean
+  projectName: string
+  description: string
+  createdAt: bigint
+  milestoneCount: number
+}
+
+export interface Donation {
+  donor: string
+  amount: bigint
+  timestamp: bigint
+}
+
+export interface ProjectStatus {
+  fundingDeadline: bigint
+  fundsReleased: bigint
+  isCancelled: boolean
+  isRefundable: boolean
+  fundingToken: string
+  isFrozen: boolean
+  freezeReason: string
+}
+
+// Escrow-wide circuit breaker
+export interface PauseStatus {
+  isPaused: boolean
+  reason: string
+}
+
+// The currency a project is funded and paid out in
+export interface FundingToken {
+  address: string
+  symbol: string
+  decimals: number
+  isNative: boolean
+}
+
+export const NATIVE_FUNDING_TOKEN: FundingToken = {
+  address: ZeroAddress,
+  symbol: 'ETH',
+  decimals: 18,
+  isNative: true,
+}
+
+export interface MilestoneApprovals {
+  approvals: number
+  required: number
+}
+
+export interface MilestoneEvidence {
+  uri: string
+  contentHash: string
+  submittedAt: bigint
+}
+
+export interface MilestoneReview {
+  verifier: string
+  approved: boolean
+  reason: string
+  reviewedAt: bigint
+}
+
+export interface MilestoneDispute {
+  challenger: string
+  reason: string
+  raisedAt: bigint
+  resolved: boolean
+  upheld: boolean
+  resolution: string
+}
+
+export interface MilestoneDisputes {
+  challengeDeadline: bigint
+  disputes: MilestoneDispute[]
+}
+
+export interface MilestoneDetails {
+  description: string
+  amount: bigint
+  state: number
+  evidence: MilestoneEvidence[]
+  reviews: MilestoneReview[]
+}
+
+// A milestone with its verifier approvals and dispute trail
+export interface ProjectMilestone extends MilestoneDetails, MilestoneDisputes {
+  approvals: number
+  requiredApprovals: number
+}
+
+export interface ProjectWithMilestones extends ProjectDetails {
+  milestones: MilestoneDetails[]
+}
+
+// A project in the catalogue, with the token its amounts are in and whether it can
+// still take donations
+export interface ListedProject extends ProjectWithMilestones {
+  fundingToken: FundingToken
+  fundingDeadline: bigint
+  isCancelled: boolean
+  isFrozen: boolean
+}
+
+// An outcome a project commits to at creation
+export interface ImpactMetric {
+  name: string
+  unit: string
+  target: bigint
+}
+
+export interface ImpactMetrics {
+  metrics: ImpactMetric[]
+  // Empty until the NGO reports, then one value per metric
+  actualValues: bigint[]
+}
+
+// Mirrors ImpactToken.ImpactResult
+export interface ImpactResult {
+  name: string
+  unit: string
+  target: bigint
+  actual: bigint
+}
+
+// NFT minted to the NGO when a project completes
+export interface ImpactTokenMetadata {
+  tokenId: bigint
+  projectId: bigint
+  projectName: string
+  description: string
+  results: ImpactResult[]
+  imageUri: string
+  timestamp: bigint
+  recipient: string
+}
+
+// Soulbound receipt minted to a donor for each donation
+export interface DonationCertificate {
+  tokenId: bigint
+  projectId: bigint
+  donor: string
+  fundingToken: string
+  amount: bigint
+  timestamp: bigint
+}
+
+// Mirrors NGORegistry.NGOStatus
+export const NGO_STATUS = {
+  UNREGISTERED: 0,
+  PENDING: 1,
+  VERIFIED: 2,
+  SUSPENDED: 3,
+} as const
+
+export const NGO_STATUS_LABELS = ['Unregistered', 'Pending', 'Verified', 'Suspended']
+
+export interface NGOProfile {
+  address: string
+  name: string
+  registrationNumberHash: string
+  metadataUri: string
+  status: number
+  registeredAt: bigint
+  updatedAt: bigint
+}
+
+// Roles held by an account across ProjectEscrow and NGORegistry
+export interface Roles {
+  isAdmin: boolean
+  isVerifier: boolean
+  isTreasurer: boolean
+  isRegistrar: boolean
+  isPauser: boolean
+}
+
+// Arguments of the escrow events the UI reacts to. projectId and
+// milestoneIndex are converted to numbers; amounts stay bigint.
+export interface EscrowEventArgs {
+  ProjectCreated: { projectId: number; creator: string; totalAmount: bigint }
+  ProjectFunded: { projectId: number; donor: string; amount: bigint }
+  MilestoneEvidenceSubmitted: { projectId: number; milestoneIndex: number; contentHash: string; uri: string }
+  MilestoneApproved: { projectId: number; milestoneIndex: number; verifier: string; approvals: bigint; required: bigint }
+  MilestoneApprovalRevoked: { projectId: number; milestoneIndex: number; verifier: string; approvals: bigint; required: bigint }
+  MilestoneRejected: { projectId: number; milestoneIndex: number; verifier: string; reason: string }
+  MilestoneReopened: { projectId: number; milestoneIndex: number; reviewRound: bigint }
+  MilestoneVerified: { projectId: number; milestoneIndex: number }
+  MilestoneDisputed: { projectId: number; milestoneIndex: number; challenger: string; reason: string }
+  DisputeResolved: { projectId: number; milestoneIndex: number; upheld: boolean; resolution: string }
+  MilestonePaid: { projectId: number; milestoneIndex: number; amount: bigint }
+  ImpactReported: { projectId: number; actualValues: bigint[] }
+  ProjectCompleted: { projectId: number }
+  ImpactTokenAwarded: { projectId: number; tokenId: bigint; recipient: string }
+  ProjectCancelled: { projectId: number; cancelledBy: string }
+  RefundClaimed: { projectId: number; donor: string; amount: bigint }
+  ProjectFrozen: { projectId: number; account: string; reason: string }
+  ProjectUnfrozen: { projectId: number; account: string }
+}
+
+export type EscrowEventName = keyof EscrowEventArgs
+
+// Every event above has projectId as its first indexed topic
+export const PROJECT_EVENTS: EscrowEventName[] = [
+  'ProjectCreated',
+  'ProjectFunded',
+  'MilestoneEvidenceSubmitted',
+  'MilestoneApproved',
+  'MilestoneApprovalRevoked',
+  'MilestoneRejected',
+  'MilestoneReopened',
+  'MilestoneVerified',
+  'MilestoneDisputed',
+  'DisputeResolved',
+  'MilestonePaid',
+  'ImpactReported',
+  'ProjectCompleted',
+  'ImpactTokenAwarded',
+  'ProjectCancelled',
+  'RefundClaimed',
+  'ProjectFrozen',
+  'ProjectUnfrozen',
+]
+
+export interface EscrowEventMeta {
+  blockNumber: number
+  transactionHash: string
+}
+
+// A past escrow event, with the timestamp of the block it was mined in
+export interface EscrowEventLog<K extends EscrowEventName = EscrowEventName> extends EscrowEventMeta {
+  name: K
+  args: EscrowEventArgs[K]
+  timestamp: number
+}
+
+// Funding, payouts and the minted impact token of one project, from its escrow events
+export interface ProjectHistory {
+  donations: EscrowEventLog<'ProjectFunded'>[]
+  payouts: EscrowEventLog<'MilestonePaid'>[]
+  // Set once the project completes
+  impactToken: ImpactTokenMetadata | null
+}
+
+// One project in a donor's portfolio. Amounts are in the project's funding token.
+export interface PortfolioProject {
+  projectId: number
+  projectName: string
+  creator: string
+  fundingToken: FundingToken
+  donated: bigint
+  donationCount: number
+  lastDonatedAt: number
+  // The donor's pro-rata share of the milestone payouts, the same split refunds use
+  released: bigint
+  refunded: bigint
+  // Still held by the escrow on the donor's behalf
+  escrowed: bigint
+  isComplete: boolean
+  isCancelled: boolean
+  impactTokenId: bigint | null
+}
+
+export type EscrowEventListener<K extends EscrowEventName> = (args: EscrowEventArgs[K], meta: EscrowEventMeta) => void
+
+// Call to stop listening
+export type Unsubscribe = () => void
+
+// Name the decoded values and convert IDs to numbers
+function toEscrowEventArgs(fragment: EventFragment, values: Result): EscrowEventArgs[EscrowEventName] {
+  const args: Record<string, unknown> = {};
+  fragment.inputs.forEach((input, i) => {
+    const value = values[i];
+    args[input.name] =
+      input.name === 'projectId' || input.name === 'milestoneIndex'
+        ? Number(value)
+        : Array.isArray(value)
+          ? [...value]
+          : value;
+  });
+  return args as EscrowEventArgs[EscrowEventName];
+}
 
 export class ContractService {
   private signerOrProvider: Signer | Provider | null = null
-  private impactToken: Contract | null = null
-  private projectEscrow: Contract | null = null
-  private impactTokenConfig = {
-    address: contractConfig.addresses.impactToken as `0x${string}`,
-    abi: IMPACT_TOKEN_ABI,
+  private addresses: ContractAddresses | null = null
+  // Block the contracts were deployed in; event history is read from here
+  private startBlock = 0
+  private impactToken: ImpactToken | null = null
+  private projectEscrow: ProjectEscrow | null = null
+  private ngoRegistry: NGORegistry | null = null
+  private donationCertificate: DonationCertificateContract | null = null
+  private multicall3: IMulticall3 | null = null
+  private hasMulticall3: Promise<boolean> | null = null
+  private fundingTokens = new Map<string, FundingToken>()
+
+  // addresses are the deployment on the signer's or provider's chain
+  constructor(signerOrProvider?: Signer | Provider, addresses?: ContractAddresses, startBlock = 0) {
+    if (signerOrProvider && addresses) {
+      this.init(signerOrProvider, addresses, startBlock);
+    }
   }
 
-  private projectEscrowConfig = {
-    address: contractConfig.addresses.projectEscrow as `0x${string}`,
-    abi: PROJECT_ESCROW_ABI,
+  init(signerOrProvider: Signer | Provider, addresses: ContractAddresses, startBlock = 0) {
+    this.signerOrProvider = signerOrProvider;
+    this.addresses = addresses;
+    this.startBlock = startBlock;
+    this.impactToken = ImpactToken__factory.connect(addresses.impactToken, signerOrProvider);
+    this.projectEscrow = ProjectEscrow__factory.connect(addresses.projectEscrow, signerOrProvider);
+    this.ngoRegistry = NGORegistry__factory.connect(addresses.ngoRegistry, signerOrProvider);
+    this.donationCertificate = DonationCertificate__factory.connect(addresses.donationCertificate, signerOrProvider);
+    this.multicall3 = IMulticall3__factory.connect(addresses.multicall3, signerOrProvider);
+    this.hasMulticall3 = null;
+    if (signerOrProvider.provider) {
+      transactionManager.resume(signerOrProvider.provider);
+    }
   }
 
-  constructor(signerOrProvider?: Signer | Provider) {
-    if (signerOrProvider) {
-      this.init(signerOrProvider);
+  // Every write goes through the transaction manager, which follows it by hash and
+  // rethrows wallet and revert errors as readable TransactionErrors
+  private async send(action: TransactionAction, request: Promise<ContractTransactionResponse>, projectId?: number) {
+    return await transactionManager.track(action, request, projectId);
+  }
+
+  // Multicall3 is missing on a fresh Hardhat node, so check for its code once per provider
+  private async isMulticall3Deployed(): Promise<boolean> {
+    if (!this.hasMulticall3) {
+      const provider = this.signerOrProvider?.provider;
+      this.hasMulticall3 = provider
+        ? provider.getCode(this.addresses!.multicall3).then(
+            (code) => code !== '0x',
+            () => false
+          )
+        : Promise.resolve(false);
     }
+    return await this.hasMulticall3;
   }
 
-  init(signerOrProvider: Signer | Provider) {
-    this.signerOrProvider = signerOrProvider;
-    this.impactToken = new Contract(
-      contractConfig.addresses.impactToken!,
-      IMPACT_TOKEN_ABI,
-      signerOrProvider
-    );
-    this.projectEscrow = new Contract(
-      contractConfig.addresses.projectEscrow!,
-      PROJECT_ESCROW_ABI,
-      signerOrProvider
-    );
+  // Run the same view function for many argument lists, batched through Multicall3
+  // where available and as parallel calls otherwise. Reverted calls come back as null.
+  private async batchCall<T>(contract: BaseContract, method: string, argsList: unknown[][]): Promise<(T | null)[]> {
+    if (!this.multicall3) throw new Error('Contract not initialized');
+    if (!(await this.isMulticall3Deployed())) {
+      return await Promise.all(
+        argsList.map((args) =>
+          contract
+            .getFunction(method)
+            .staticCallResult(...args)
+            .then(
+              (result) => result as unknown as T,
+              () => null
+            )
+        )
+      );
+    }
+
+    const target = await contract.getAddress();
+    const fragment = contract.interface.getFunction(method)!;
+    const results: (T | null)[] = [];
+    for (let i = 0; i < argsList.length; i += MULTICALL_BATCH_SIZE) {
+      const calls = argsList.slice(i, i + MULTICALL_BATCH_SIZE).map((args) => ({
+        target,
+        allowFailure: true,
+        callData: contract.interface.encodeFunctionData(fragment, args),
+      }));
+      const responses = await this.multicall3.aggregate3.staticCall(calls);
+      for (const { success, returnData } of responses) {
+        results.push(success ? (contract.interface.decodeFunctionResult(fragment, returnData) as unknown as T) : null);
+      }
+    }
+    return results;
   }
 
   // Project Escrow Functions
   async getProjectCount(): Promise<number> {
     if (!this.projectEscrow) throw new Error('Contract not initialized');
-    return await this.projectEscrow.projectCounter();
+    return Number(await this.projectEscrow.projectCounter());
+  }
+
+  async getProjectDetails(projectId: number): Promise<ProjectDetails> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return this.toProjectDetails(await this.projectEscrow.getProject(projectId));
+  }
+
+  // Projects are numbered from 1, so offset 0 starts at project #1. Loads the
+  // projects, then their milestones, statuses and freezes in two rounds of batched calls.
+  async getProjectsPage(offset: number, limit: number): Promise<ListedProject[]> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    const count = Number(await this.getProjectCount());
+    const ids: number[] = [];
+    for (let id = offset + 1; id <= Math.min(count, offset + limit); id++) {
+      ids.push(id);
+    }
+
+    const projectResults = await this.batchCall<ProjectOutput>(this.projectEscrow, 'getProject', ids.map((id) => [id]));
+    const projects = projectResults
+      .filter((result): result is ProjectOutput => result !== null)
+      .map((result) => this.toProjectDetails(result));
+
+    const milestoneArgs = projects.flatMap((p) =>
+      Array.from({ length: p.milestoneCount }, (_, i) => [p.projectId, i])
+    );
+    const projectArgs = projects.map((p) => [p.projectId]);
+    const [milestoneResults, statuses, frozen] = await Promise.all([
+      this.batchCall<MilestoneOutput>(this.projectEscrow, 'getMilestone', milestoneArgs),
+      this.batchCall<ProjectStatusOutput>(this.projectEscrow, 'getProjectStatus', projectArgs),
+      this.batchCall<[boolean]>(this.projectEscrow, 'projectFrozen', projectArgs),
+    ]);
+    // Token metadata is cached, so this is one lookup per distinct token
+    const fundingTokens = await Promise.all(
+      statuses.map((status, i) => {
+        if (!status || !frozen[i]) throw new Error(`Failed to read the status of project ${projects[i].projectId}`);
+        return this.getTokenInfo(status.fundingToken);
+      })
+    );
+
+    let cursor = 0;
+    return projects.map((p, i) => {
+      const milestones = milestoneResults.slice(cursor, cursor + p.milestoneCount);
+      cursor += p.milestoneCount;
+      return {
+        ...p,
+        milestones: milestones
+          .filter((result): result is MilestoneOutput => result !== null)
+          .map((result) => this.toMilestoneDetails(result)),
+        fundingToken: fundingTokens[i],
+        fundingDeadline: statuses[i]!.fundingDeadline,
+        isCancelled: statuses[i]!.isCancelled,
+        isFrozen: frozen[i]![0],
+      };
+    });
   }
 
-  async getProjectDetails(projectId: number) {
+  private toProjectDetails(result: ProjectOutput): ProjectDetails {
+    return {
+      projectId: result.projectId,
+      creator: result.creator,
+      donor: result.donor,
+      totalAmount: result.totalAmount,
+      fundsRaised: result.fundsRaised,
+      isComplete: result.isComplete,
+      projectName: result.projectName,
+      description: result.description,
+      createdAt: result.createdAt,
+      milestoneCount: Number(result.milestoneCount),
+    };
+  }
+
+  async getProjectStatus(projectId: number): Promise<ProjectStatus> {
     if (!this.projectEscrow) throw new Error('Contract not initialized');
-    const result = await this.projectEscrow.getProject(projectId);
-    // Normalize to a consistent object with named properties
+    const [result, isFrozen, freezeReason] = await Promise.all([
+      this.projectEscrow.getProjectStatus(projectId),
+      this.projectEscrow.projectFrozen(projectId),
+      this.projectEscrow.freezeReason(projectId),
+    ]);
     return {
-      projectId: result[0],
-      creator: result[1],
-      donor: result[2],
-      totalAmount: result[3],
-      fundsRaised: result[4],
-      isComplete: result[5],
-      projectName: result[6],
-      description: result[7],
-      createdAt: result[8],
-      milestoneCount: result[9],
-    } as any;
+      fundingDeadline: result.fundingDeadline,
+      fundsReleased: result.fundsReleased,
+      isCancelled: result.isCancelled,
+      isRefundable: result.isRefundable,
+      fundingToken: result.fundingToken,
+      isFrozen,
+      freezeReason,
+    };
   }
 
-  async donateToProject(projectId: number, amount: string) {
+  // Event Subscriptions
+  /**
+   * Listen for an escrow event, optionally for one project only
+   * @returns A function that removes exactly this listener
+   */
+  onEscrowEvent<K extends EscrowEventName>(name: K, listener: EscrowEventListener<K>, projectId?: number): Unsubscribe {
     if (!this.projectEscrow) throw new Error('Contract not initialized');
-    const tx = await this.projectEscrow.donate(projectId, {
-      value: parseEther(amount),
+    const contract = this.projectEscrow;
+    const event = contract.filters[name];
+
+    // ethers passes the decoded values followed by the event payload
+    const handler = (...params: unknown[]) => {
+      const payload = params[params.length - 1] as ContractEventPayload;
+      listener(toEscrowEventArgs(payload.fragment, payload.args) as EscrowEventArgs[K], {
+        blockNumber: payload.log.blockNumber,
+        transactionHash: payload.log.transactionHash,
+      });
+    };
+
+    if (projectId === undefined) {
+      contract.on(event, handler);
+      return () => {
+        contract.off(event, handler);
+      };
+    }
+    const filter = event(projectId);
+    contract.on(filter, handler);
+    return () => {
+      contract.off(filter, handler);
+    };
+  }
+
+  /**
+   * Listen for several escrow events with a single callback, optionally for one project only.
+   * Uses one log filter for all of them, so it costs one poll per block.
+   * @returns A function that removes the listener
+   */
+  onEscrowEvents(
+    names: EscrowEventName[],
+    listener: (name: EscrowEventName, args: EscrowEventArgs[EscrowEventName], meta: EscrowEventMeta) => void,
+    projectId?: number
+  ): Unsubscribe {
+    const provider = this.signerOrProvider?.provider;
+    if (!this.projectEscrow || !provider) throw new Error('Contract not initialized');
+    const escrowInterface = this.projectEscrow.interface;
+    const filter = this.escrowEventFilter(names, projectId);
+
+    const handler = (log: Log) => {
+      const parsed = escrowInterface.parseLog(log);
+      if (!parsed) return;
+      listener(parsed.name as EscrowEventName, toEscrowEventArgs(parsed.fragment, parsed.args), {
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    };
+
+    provider.on(filter, handler);
+    return () => {
+      provider.off(filter, handler);
+    };
+  }
+
+  /**
+   * Past escrow events for one project, oldest first
+   * @param names Events to include, all project events by default
+   * @param fromBlock First block to read, the deployment block by default
+   */
+  async getProjectEvents(
+    projectId: number,
+    names: EscrowEventName[] = PROJECT_EVENTS,
+    fromBlock = this.startBlock
+  ): Promise<EscrowEventLog[]> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.queryEscrowEvents(this.escrowEventFilter(names, projectId), fromBlock);
+  }
+
+  // Every donation and refund of one donor across all projects, oldest first
+  async getDonorEvents(donorAddress: string): Promise<EscrowEventLog<'ProjectFunded' | 'RefundClaimed'>[]> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    const escrowInterface = this.projectEscrow.interface;
+    // donor is the second indexed topic of both events
+    const events = await this.queryEscrowEvents({
+      address: this.addresses!.projectEscrow,
+      topics: [
+        [escrowInterface.getEvent('ProjectFunded').topicHash, escrowInterface.getEvent('RefundClaimed').topicHash],
+        null,
+        zeroPadValue(donorAddress, 32),
+      ],
+    });
+    return events as EscrowEventLog<'ProjectFunded' | 'RefundClaimed'>[];
+  }
+
+  // Fetch and decode escrow logs from the deployment block on, with block timestamps
+  private async queryEscrowEvents(
+    filter: { address: string; topics: (string | string[] | null)[] },
+    fromBlock = this.startBlock
+  ): Promise<EscrowEventLog[]> {
+    const provider = this.signerOrProvider?.provider;
+    if (!this.projectEscrow || !provider) throw new Error('Contract not initialized');
+    const escrowInterface = this.projectEscrow.interface;
+    const logs = await provider.getLogs({ ...filter, fromBlock });
+
+    // One block lookup per distinct block for the timestamps
+    const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)));
+    const blocks = await Promise.all(blockNumbers.map((n) => provider.getBlock(n)));
+    const timestamps = new Map(blockNumbers.map((n, i) => [n, blocks[i]?.timestamp ?? 0]));
+
+    return logs.flatMap((log) => {
+      const parsed = escrowInterface.parseLog(log);
+      if (!parsed) return [];
+      return [
+        {
+          name: parsed.name as EscrowEventName,
+          args: toEscrowEventArgs(parsed.fragment, parsed.args),
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          timestamp: timestamps.get(log.blockNumber)!,
+        },
+      ];
     });
-    return await tx.wait();
+  }
+
+  // Read from the event indexer when it is reachable, with logs only for the blocks
+  // it hasn't indexed yet. Without the indexer every log is read from the chain.
+  async getProjectHistory(projectId: number): Promise<ProjectHistory> {
+    const indexed = await this.getIndexedProjectHistory(projectId).catch((err) => {
+      console.warn('Indexer unavailable, reading project history from logs:', err);
+      return null;
+    });
+    const events = await this.getProjectEvents(
+      projectId,
+      ['ProjectFunded', 'MilestonePaid', 'ImpactTokenAwarded'],
+      indexed ? indexed.lastBlock + 1 : this.startBlock
+    );
+    const ofType = <K extends EscrowEventName>(name: K) =>
+      events.filter((event): event is EscrowEventLog<K> => event.name === name);
+    const [awarded] = ofType('ImpactTokenAwarded');
+    const impactTokenId = indexed?.impactTokenId ?? awarded?.args.tokenId ?? null;
+    return {
+      donations: [...(indexed?.donations ?? []), ...ofType('ProjectFunded')],
+      payouts: [...(indexed?.payouts ?? []), ...ofType('MilestonePaid')],
+      impactToken: impactTokenId === null ? null : await this.getImpactToken(impactTokenId),
+    };
+  }
+
+  // The indexed part of a project's history, in the same shape as decoded logs
+  private async getIndexedProjectHistory(projectId: number) {
+    const { lastIndexedBlock } = await indexerService.getStatus();
+    const [project, donations, payouts] = await Promise.all([
+      indexerService.getProject(projectId),
+      indexerService.getProjectDonations(projectId),
+      indexerService.getPayoutHistory(projectId),
+    ]);
+    // The indexer may have moved on since the status read; later blocks come from the logs
+    const indexedBy = (blockNumber: number) => blockNumber <= lastIndexedBlock;
+    return {
+      lastBlock: lastIndexedBlock,
+      impactTokenId: project.impactTokenId,
+      donations: donations
+        .filter((d) => indexedBy(d.blockNumber))
+        .map((d): EscrowEventLog<'ProjectFunded'> => ({
+          name: 'ProjectFunded',
+          args: { projectId: d.projectId, donor: d.donor, amount: d.amount },
+          blockNumber: d.blockNumber,
+          transactionHash: d.txHash,
+          timestamp: d.timestamp,
+        })),
+      payouts: payouts
+        .filter((p) => indexedBy(p.blockNumber))
+        .map((p): EscrowEventLog<'MilestonePaid'> => ({
+          name: 'MilestonePaid',
+          args: { projectId: p.projectId, milestoneIndex: p.milestoneIndex, amount: p.amount },
+          blockNumber: p.blockNumber,
+          transactionHash: p.txHash,
+          timestamp: p.paidAt,
+        })),
+    };
+  }
+
+  // Every project the donor has funded, built from their ProjectFunded and
+  // RefundClaimed logs and each project's MilestonePaid and ImpactTokenAwarded logs
+  async getDonorPortfolio(donorAddress: string): Promise<PortfolioProject[]> {
+    const events = await this.getDonorEvents(donorAddress);
+    const projectIds = Array.from(new Set(events.map((event) => event.args.projectId)));
+
+    return await Promise.all(
+      projectIds.map(async (projectId) => {
+        const [details, status, projectEvents] = await Promise.all([
+          this.getProjectDetails(projectId),
+          this.getProjectStatus(projectId),
+          this.getProjectEvents(projectId, ['MilestonePaid', 'ImpactTokenAwarded']),
+        ]);
+        const own = events.filter((event) => event.args.projectId === projectId);
+        const donations = own.filter((event) => event.name === 'ProjectFunded');
+        const sum = (list: EscrowEventLog<'ProjectFunded' | 'RefundClaimed'>[]) =>
+          list.reduce((total, event) => total + event.args.amount, BigInt(0));
+
+        const donated = sum(donations);
+        const refunded = sum(own.filter((event) => event.name === 'RefundClaimed'));
+        const paidOut = projectEvents
+          .filter((event): event is EscrowEventLog<'MilestonePaid'> => event.name === 'MilestonePaid')
+          .reduce((total, event) => total + event.args.amount, BigInt(0));
+        const released = details.fundsRaised > BigInt(0) ? (donated * paidOut) / details.fundsRaised : BigInt(0);
+        const awarded = projectEvents.find(
+          (event): event is EscrowEventLog<'ImpactTokenAwarded'> => event.name === 'ImpactTokenAwarded'
+        );
+
+        return {
+          projectId,
+          projectName: details.projectName,
+          creator: details.creator,
+          fundingToken: await this.getTokenInfo(status.fundingToken),
+          donated,
+          donationCount: donations.length,
+          lastDonatedAt: donations[donations.length - 1]?.timestamp ?? 0,
+          released,
+          refunded,
+          // A refund returns everything that wasn't paid out
+          escrowed: refunded > BigInt(0) ? BigInt(0) : donated - released,
+          isComplete: details.isComplete,
+          isCancelled: status.isCancelled,
+          impactTokenId: awarded ? awarded.args.tokenId : null,
+        };
+      })
+    );
+  }
+
+  // Matches any of the named escrow events, for one project when projectId is given
+  private escrowEventFilter(names: EscrowEventName[], projectId?: number) {
+    const escrowInterface = this.projectEscrow!.interface;
+    return {
+      address: this.addresses!.projectEscrow,
+      topics: [
+        names.map((name) => escrowInterface.getEvent(name)!.topicHash),
+        projectId === undefined ? null : zeroPadValue(toBeHex(projectId), 32),
+      ],
+    };
+  }
+
+  async getPauseStatus(): Promise<PauseStatus> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    const [isPaused, reason] = await Promise.all([
+      this.projectEscrow.paused(),
+      this.projectEscrow.pauseReason(),
+    ]);
+    return { isPaused, reason };
+  }
+
+  async pause(reason: string) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('pause', this.projectEscrow.pause(reason));
+  }
+
+  async unpause() {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('unpause', this.projectEscrow.unpause());
+  }
+
+  async freezeProject(projectId: number, reason: string) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('freezeProject', this.projectEscrow.freezeProject(projectId, reason), projectId);
+  }
+
+  async unfreezeProject(projectId: number) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('unfreezeProject', this.projectEscrow.unfreezeProject(projectId), projectId);
+  }
+
+  async getFundingToken(projectId: number): Promise<FundingToken> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    const { fundingToken } = await this.getProjectStatus(projectId);
+    return await this.getTokenInfo(fundingToken);
+  }
+
+  async getTokenInfo(tokenAddress: string): Promise<FundingToken> {
+    if (!this.signerOrProvider) throw new Error('Contract not initialized');
+    if (tokenAddress === ZeroAddress) return NATIVE_FUNDING_TOKEN;
+
+    const cached = this.fundingTokens.get(tokenAddress.toLowerCase());
+    if (cached) return cached;
+
+    const token = IERC20Metadata__factory.connect(tokenAddress, this.signerOrProvider);
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+    const info: FundingToken = {
+      address: tokenAddress,
+      symbol,
+      decimals: Number(decimals),
+      isNative: false,
+    };
+    this.fundingTokens.set(tokenAddress.toLowerCase(), info);
+    return info;
+  }
+
+  // amount is in the project's funding token, e.g. "1.5" ETH or "250" USDC
+  async donateToProject(projectId: number, amount: string) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    const fundingToken = await this.getFundingToken(projectId);
+    if (fundingToken.isNative) {
+      return await this.send('donate', this.projectEscrow.donate(projectId, { value: parseEther(amount) }), projectId);
+    }
+
+    const signer = this.signerOrProvider as Signer;
+    if (typeof signer.getAddress !== 'function') throw new Error('Wallet not connected');
+    const value = parseUnits(amount, fundingToken.decimals);
+    const token = IERC20Metadata__factory.connect(fundingToken.address, signer);
+    const allowance: bigint = await token.allowance(
+      await signer.getAddress(),
+      this.addresses!.projectEscrow
+    );
+    if (allowance < value) {
+      await this.send('approveToken', token.approve(this.addresses!.projectEscrow, value), projectId);
+    }
+    return await this.send('donate', this.projectEscrow.donateToken(projectId, value), projectId);
+  }
+
+  async getContribution(projectId: number, donorAddress: string): Promise<bigint> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.projectEscrow.getContribution(projectId, donorAddress);
+  }
+
+  async getDonors(projectId: number): Promise<string[]> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return [...(await this.projectEscrow.getDonors(projectId))];
+  }
+
+  async getDonationCount(projectId: number): Promise<number> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return Number(await this.projectEscrow.getDonationCount(projectId));
+  }
+
+  // Returns one page of the project's funding history, oldest first
+  async getDonations(projectId: number, offset = 0, limit = 50): Promise<Donation[]> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    const page = await this.projectEscrow.getDonations(projectId, offset, limit);
+    return page.map((d) => ({
+      donor: d.donor,
+      amount: d.amount,
+      timestamp: d.timestamp,
+    }));
+  }
+
+  async getRefundableAmount(projectId: number, donorAddress: string): Promise<bigint> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.projectEscrow.getRefundableAmount(projectId, donorAddress);
+  }
+
+  async cancelProject(projectId: number) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('cancelProject', this.projectEscrow.cancelProject(projectId), projectId);
+  }
+
+  async claimRefund(projectId: number) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('claimRefund', this.projectEscrow.claimRefund(projectId), projectId);
   }
 
   async verifyMilestone(projectId: number, milestoneIndex: number) {
     if (!this.projectEscrow) throw new Error('Contract not initialized');
-    const tx = await this.projectEscrow.verifyMilestone(projectId, milestoneIndex);
-    return await tx.wait();
+    return await this.send('verifyMilestone', this.projectEscrow.verifyMilestone(projectId, milestoneIndex), projectId);
+  }
+
+  async approveMilestone(projectId: number, milestoneIndex: number, reason: string) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('approveMilestone', this.projectEscrow.approveMilestone(projectId, milestoneIndex, reason), projectId);
+  }
+
+  async rejectMilestone(projectId: number, milestoneIndex: number, reason: string) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('rejectMilestone', this.projectEscrow.rejectMilestone(projectId, milestoneIndex, reason), projectId);
   }
 
-  async getMilestone(projectId: number, milestoneIndex: number) {
+  // contentHash is optional; an empty value is sent as bytes32(0)
+  async submitMilestoneEvidence(
+    projectId: number,
+    milestoneIndex: number,
+    uri: string,
+    contentHash?: string
+  ) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send(
+      'submitMilestoneEvidence',
+      this.projectEscrow.submitMilestoneEvidence(projectId, milestoneIndex, uri, contentHash || ZeroHash),
+      projectId
+    );
+  }
+
+  async revokeMilestoneApproval(projectId: number, milestoneIndex: number) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('revokeMilestoneApproval', this.projectEscrow.revokeMilestoneApproval(projectId, milestoneIndex), projectId);
+  }
+
+  async getMilestoneApprovals(projectId: number, milestoneIndex: number): Promise<MilestoneApprovals> {
     if (!this.projectEscrow) throw new Error('Contract not initialized');
-    return await this.projectEscrow.getMilestone(projectId, milestoneIndex);
+    const result = await this.projectEscrow.getMilestoneApprovals(projectId, milestoneIndex);
+    return {
+      approvals: Number(result.approvals),
+      required: Number(result.required),
+    };
   }
 
-  async isContractOwner(address: string): Promise<boolean> {
+  async hasApprovedMilestone(projectId: number, milestoneIndex: number, verifierAddress: string): Promise<boolean> {
     if (!this.projectEscrow) throw new Error('Contract not initialized');
-    const owner = await this.projectEscrow.owner();
-    return owner.toLowerCase() === address.toLowerCase();
+    return await this.projectEscrow.hasApproved(projectId, milestoneIndex, verifierAddress);
   }
 
+  async raiseDispute(projectId: number, milestoneIndex: number, reason: string) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('raiseDispute', this.projectEscrow.raiseDispute(projectId, milestoneIndex, reason), projectId);
+  }
+
+  async resolveDispute(projectId: number, milestoneIndex: number, upheld: boolean, resolution: string) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('resolveDispute', this.projectEscrow.resolveDispute(projectId, milestoneIndex, upheld, resolution), projectId);
+  }
+
+  async getMilestoneDisputes(projectId: number, milestoneIndex: number): Promise<MilestoneDisputes> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return this.toMilestoneDisputes(await this.projectEscrow.getMilestoneDisputes(projectId, milestoneIndex));
+  }
+
+  private toMilestoneDisputes(result: MilestoneDisputesOutput): MilestoneDisputes {
+    return {
+      challengeDeadline: result.challengeDeadline,
+      disputes: result.disputes.map((d) => ({
+        challenger: d.challenger,
+        reason: d.reason,
+        raisedAt: d.raisedAt,
+        resolved: d.resolved,
+        upheld: d.upheld,
+        resolution: d.resolution,
+      })),
+    };
+  }
+
+  async isVerifier(projectId: number, address: string): Promise<boolean> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.projectEscrow.isVerifier(projectId, address);
+  }
+
+  async getMilestone(projectId: number, milestoneIndex: number): Promise<MilestoneDetails> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return this.toMilestoneDetails(await this.projectEscrow.getMilestone(projectId, milestoneIndex));
+  }
+
+  // Every milestone of a project with its approvals and disputes, read in batched calls
+  async getMilestones(projectId: number): Promise<ProjectMilestone[]> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    const { milestoneCount } = await this.getProjectDetails(projectId);
+    const args = Array.from({ length: milestoneCount }, (_, i) => [projectId, i]);
+    const [milestones, approvals, disputes] = await Promise.all([
+      this.batchCall<MilestoneOutput>(this.projectEscrow, 'getMilestone', args),
+      this.batchCall<MilestoneApprovalsOutput>(this.projectEscrow, 'getMilestoneApprovals', args),
+      this.batchCall<MilestoneDisputesOutput>(this.projectEscrow, 'getMilestoneDisputes', args),
+    ]);
+
+    return milestones.map((milestone, i) => {
+      const approval = approvals[i];
+      const dispute = disputes[i];
+      if (!milestone || !approval || !dispute) throw new Error(`Failed to load milestone ${i}`);
+      return {
+        ...this.toMilestoneDetails(milestone),
+        ...this.toMilestoneDisputes(dispute),
+        approvals: Number(approval.approvals),
+        requiredApprovals: Number(approval.required),
+      };
+    });
+  }
+
+  // Treasurer only; the milestone must be verified and past its challenge window
+  async payMilestone(projectId: number, milestoneIndex: number) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('payMilestone', this.projectEscrow.payMilestone(projectId, milestoneIndex), projectId);
+  }
+
+  // Verifier only; needs every milestone paid and impact reported, then mints the ImpactToken
+  async completeProject(projectId: number, imageUri: string) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('completeProject', this.projectEscrow.completeProject(projectId, imageUri), projectId);
+  }
+
+  private toMilestoneDetails(result: MilestoneOutput): MilestoneDetails {
+    return {
+      description: result.description,
+      amount: result.amount,
+      state: Number(result.state),
+      evidence: result.evidence.map((e) => ({
+        uri: e.uri,
+        contentHash: e.contentHash,
+        submittedAt: e.submittedAt,
+      })),
+      reviews: result.reviews.map((r) => ({
+        verifier: r.verifier,
+        approved: r.approved,
+        reason: r.reason,
+        reviewedAt: r.reviewedAt,
+      })),
+    };
+  }
+
+  async getRoles(address: string): Promise<Roles> {
+    if (!this.projectEscrow || !this.ngoRegistry) throw new Error('Contract not initialized');
+    const [isAdmin, isVerifier, isTreasurer, isRegistrar, isPauser] = await Promise.all([
+      this.projectEscrow.hasRole(ROLES.DEFAULT_ADMIN, address),
+      this.projectEscrow.hasRole(ROLES.VERIFIER, address),
+      this.projectEscrow.hasRole(ROLES.TREASURER, address),
+      this.ngoRegistry.hasRole(ROLES.NGO_REGISTRAR, address),
+      this.projectEscrow.hasRole(ROLES.PAUSER, address),
+    ]);
+    return { isAdmin, isVerifier, isTreasurer, isRegistrar, isPauser };
+  }
+
+  // Milestone amounts are in the funding token (ETH when fundingToken is omitted)
   async createProject(
     ngoAddress: string,
-    milestoneAmountsEth: string[],
+    milestoneAmounts: string[],
     milestoneDescriptions: string[],
     projectName: string,
-    description: string
+    description: string,
+    fundingDeadline: number, // unix seconds
+    impactMetrics: ImpactMetric[],
+    fundingToken: string = ZeroAddress
   ) {
     if (!this.projectEscrow) throw new Error('Contract not initialized');
-    const weiAmounts = milestoneAmountsEth.map((amt) => parseEther(amt));
-    const tx = await this.projectEscrow.createProject(
-      ngoAddress,
-      weiAmounts,
-      milestoneDescriptions,
-      projectName,
-      description
+    const { decimals } = await this.getTokenInfo(fundingToken);
+    const baseUnitAmounts = milestoneAmounts.map((amt) => parseUnits(amt, decimals));
+    return await this.send(
+      'createProject',
+      this.projectEscrow.createProject(
+        ngoAddress,
+        baseUnitAmounts,
+        milestoneDescriptions,
+        projectName,
+        description,
+        fundingDeadline,
+        fundingToken,
+        impactMetrics
+      )
     );
-    return await tx.wait();
+  }
+
+  async getImpactMetrics(projectId: number): Promise<ImpactMetrics> {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    const result = await this.projectEscrow.getImpactMetrics(projectId);
+    return {
+      metrics: result.metrics.map((m) => ({
+        name: m.name,
+        unit: m.unit,
+        target: m.target,
+      })),
+      actualValues: [...result.actualValues],
+    };
+  }
+
+  // Values are in declaration order, one per metric
+  async reportImpact(projectId: number, actualValues: bigint[]) {
+    if (!this.projectEscrow) throw new Error('Contract not initialized');
+    return await this.send('reportImpact', this.projectEscrow.reportImpact(projectId, actualValues), projectId);
   }
 
   // Impact Token Functions
-  async getImpactToken(tokenId: number) {
+  async getImpactToken(tokenId: bigint): Promise<ImpactTokenMetadata> {
     if (!this.impactToken) throw new Error('Contract not initialized');
-    return await this.impactToken.getTokenMetadata(tokenId);
+    const m = await this.impactToken.getTokenMetadata(tokenId);
+    return {
+      tokenId,
+      projectId: m.projectId,
+      projectName: m.projectName,
+      description: m.description,
+      results: m.results.map((r) => ({
+        name: r.name,
+        unit: r.unit,
+        target: r.target,
+        actual: r.actual,
+      })),
+      imageUri: m.imageUri,
+      timestamp: m.timestamp,
+      recipient: m.recipient,
+    };
   }
 
-  async getImpactTokensForOwner(ownerAddress: string) {
+  // Pass a limit to fetch one page of a large collection instead of every token
+  async getImpactTokensForOwner(ownerAddress: string, offset = 0, limit?: number): Promise<bigint[]> {
     if (!this.impactToken) throw new Error('Contract not initialized');
-    return await this.impactToken.getTokensByOwner(ownerAddress);
+    if (limit === undefined) {
+      return [...(await this.impactToken.getTokensByOwner(ownerAddress))];
+    }
+    return [...(await this.impactToken.getTokensByOwnerPage(ownerAddress, offset, limit))];
+  }
+
+  // Donation Certificate Functions
+  async getDonationCertificates(donorAddress: string): Promise<DonationCertificate[]> {
+    if (!this.donationCertificate) throw new Error('Contract not initialized');
+    const tokenIds: bigint[] = await this.donationCertificate.getCertificatesByDonor(donorAddress);
+    return await Promise.all(
+      tokenIds.map(async (tokenId) => {
+        const c = await this.donationCertificate!.getCertificate(tokenId);
+        return {
+          tokenId,
+          projectId: c.projectId,
+          donor: c.donor,
+          fundingToken: c.fundingToken,
+          amount: c.amount,
+          timestamp: c.timestamp,
+        };
+      })
+    );
+  }
+
+  async getDonationCertificateURI(tokenId: bigint): Promise<string> {
+    if (!this.donationCertificate) throw new Error('Contract not initialized');
+    return await this.donationCertificate.tokenURI(tokenId);
+  }
+
+  // NGO Registry Functions
+  async getNGO(address: string): Promise<NGOProfile | null> {
+    if (!this.ngoRegistry) throw new Error('Contract not initialized');
+    try {
+      const ngo = await this.ngoRegistry.getNGO(address);
+      return {
+        address,
+        name: ngo.name,
+        registrationNumberHash: ngo.registrationNumberHash,
+        metadataUri: ngo.metadataUri,
+        status: Number(ngo.status),
+        registeredAt: ngo.registeredAt,
+        updatedAt: ngo.updatedAt,
+      };
+    } catch {
+      // getNGO reverts for addresses that never registered
+      return null;
+    }
+  }
+
+  async getNGOs(): Promise<NGOProfile[]> {
+    if (!this.ngoRegistry) throw new Error('Contract not initialized');
+    const count: bigint = await this.ngoRegistry.getNGOCount();
+    const addresses: string[] = await this.ngoRegistry.getNGOAddresses(0, count);
+    const profiles = await Promise.all(addresses.map((a) => this.getNGO(a)));
+    return profiles.filter((p): p is NGOProfile => p !== null);
+  }
+
+  async isNGOActive(address: string): Promise<boolean> {
+    if (!this.ngoRegistry) throw new Error('Contract not initialized');
+    return await this.ngoRegistry.isActive(address);
+  }
+
+  // The registration number is only stored as a hash
+  async registerNGO(name: string, registrationNumber: string, metadataUri: string) {
+    if (!this.ngoRegistry) throw new Error('Contract not initialized');
+    return await this.send('registerNGO', this.ngoRegistry.registerNGO(name, id(registrationNumber.trim()), metadataUri));
+  }
+
+  async updateNGOProfile(metadataUri: string) {
+    if (!this.ngoRegistry) throw new Error('Contract not initialized');
+    return await this.send('updateNGOProfile', this.ngoRegistry.updateNGOProfile(metadataUri));
+  }
+
+  async setNGOStatus(address: string, status: number) {
+    if (!this.ngoRegistry) throw new Error('Contract not initialized');
+    return await this.send('setNGOStatus', this.ngoRegistry.setNGOStatus(address, status));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,121 @@
+import { contractConfig } from '../config/contracts'
+
+// Client for the event indexer's HTTP API. The API sends amounts as decimal
+// strings; they are parsed back into bigints here. Donation totals are net of refunds.
+
+export interface IndexedProject {
+  projectId: number
+  creator: string
+  totalAmount: bigint
+  fundingToken: string
+  totalDonated: bigint
+  donationCount: number
+  totalRefunded: bigint
+  totalPaidOut: bigint
+  isComplete: boolean
+  isCancelled: boolean
+  impactTokenId: bigint | null
+  createdAt: number
+  createdBlock: number
+}
+
+export interface IndexedDonation {
+  projectId: number
+  donor: string
+  amount: bigint
+  fundingToken: string
+  blockNumber: number
+  timestamp: number
+  txHash: string
+}
+
+export interface IndexedPayout {
+  projectId: number
+  milestoneIndex: number
+  recipient: string
+  amount: bigint
+  fundingToken: string
+  verifiedAt: number | null
+  paidAt: number
+  blockNumber: number
+  txHash: string
+}
+
+export interface DonorRanking {
+  rank: number
+  donor: string
+  totalDonated: bigint
+  donationCount: number
+  projectCount: number
+}
+
+export interface IndexerStatus {
+  lastIndexedBlock: number
+  lastIndexedBlockHash: string | null
+}
+
+// A record as it arrives over JSON, with bigints as decimal strings
+type Wire<T> = {
+  [K in keyof T]: T[K] extends bigint ? string : T[K] extends bigint | null ? string | null : T[K]
+}
+
+const toProject = (p: Wire<IndexedProject>): IndexedProject => ({
+  ...p,
+  totalAmount: BigInt(p.totalAmount),
+  totalDonated: BigInt(p.totalDonated),
+  totalRefunded: BigInt(p.totalRefunded),
+  totalPaidOut: BigInt(p.totalPaidOut),
+  impactTokenId: p.impactTokenId === null ? null : BigInt(p.impactTokenId),
+})
+
+const toDonation = (d: Wire<IndexedDonation>): IndexedDonation => ({ ...d, amount: BigInt(d.amount) })
+
+const toPayout = (p: Wire<IndexedPayout>): IndexedPayout => ({ ...p, amount: BigInt(p.amount) })
+
+const toRanking = (r: Wire<DonorRanking>): DonorRanking => ({ ...r, totalDonated: BigInt(r.totalDonated) })
+
+export class IndexerService {
+  constructor(private baseUrl: string = contractConfig.indexerUrl) {}
+
+  private async get<T>(path: string): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${path}`);
+    const body = await res.json();
+    if (!res.ok) throw new Error(body.error || `Indexer request failed: ${res.status}`);
+    return body as T;
+  }
+
+  async getStatus(): Promise<IndexerStatus> {
+    return await this.get<IndexerStatus>('/status');
+  }
+
+  async getProjects(): Promise<IndexedProject[]> {
+    return (await this.get<Wire<IndexedProject>[]>('/projects')).map(toProject);
+  }
+
+  async getProject(projectId: number): Promise<IndexedProject> {
+    return toProject(await this.get<Wire<IndexedProject>>(`/projects/${projectId}`));
+  }
+
+  async getProjectDonations(projectId: number): Promise<IndexedDonation[]> {
+    return (await this.get<Wire<IndexedDonation>[]>(`/projects/${projectId}/donations`)).map(toDonation);
+  }
+
+  async getDonorDonations(donorAddress: string): Promise<IndexedDonation[]> {
+    return (await this.get<Wire<IndexedDonation>[]>(`/donors/${donorAddress}/donations`)).map(toDonation);
+  }
+
+  // Payouts for one project, or across all projects when projectId is omitted
+  async getPayoutHistory(projectId?: number): Promise<IndexedPayout[]> {
+    const path = projectId === undefined ? '/payouts' : `/projects/${projectId}/payouts`;
+    return (await this.get<Wire<IndexedPayout>[]>(path)).map(toPayout);
+  }
+
+  // Leaderboards are per funding token; omit it for ETH
+  async getDonorLeaderboard(fundingToken?: string, limit = 10): Promise<DonorRanking[]> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (fundingToken) params.set('token', fundingToken);
+    return (await this.get<Wire<DonorRanking>[]>(`/leaderboard?${params}`)).map(toRanking);
+  }
+}
+
+export const indexerService = new IndexerService()
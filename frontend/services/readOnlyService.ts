@@ -0,0 +1,20 @@
+import { JsonRpcProvider } from 'ethers'
+import { contractConfig } from '../config/contracts'
+import { type ChainDeployment, toContractAddresses } from '../config/deployments'
+import { ContractService, type FundingToken, type ProjectStatus, type ProjectWithMilestones } from './contractService'
+
+// A project as rendered on the server and handed to the client as its starting state
+export interface ProjectSnapshot {
+  project: ProjectWithMilestones
+  status: ProjectStatus
+  fundingToken: FundingToken
+}
+
+// A ContractService that reads over contractConfig.network's RPC endpoint, for
+// server rendering and for visitors who haven't connected a wallet. Writes through
+// it fail, since there is no signer.
+export function createReadOnlyService(deployment: ChainDeployment): ContractService {
+  const { chainId, rpcUrl } = contractConfig.network
+  const provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true })
+  return new ContractService(provider, toContractAddresses(deployment), deployment.startBlock)
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { type CallExceptionError, Interface, makeError } from 'ethers'
+import { IERC20Errors__factory, ProjectEscrow__factory } from '@impactchain/contracts'
+import { TransactionError, decodeTransactionError } from './transactionManager'
+
+const DONOR = '0x90F79bf6EB2c4f870365E785982E1f101E93b906'
+
+const callException = (fields: Partial<Pick<CallExceptionError, 'data' | 'reason' | 'revert'>>) =>
+  makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'estimateGas',
+    data: null,
+    reason: null,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+    ...fields,
+  })
+
+const revertString = (reason: string) =>
+  callException({ reason, revert: { signature: 'Error(string)', name: 'Error', args: [reason] } })
+
+describe('decodeTransactionError', () => {
+  it('rewords known revert strings', () => {
+    const error = decodeTransactionError(revertString('Project is frozen'))
+    assert.equal(error.kind, 'reverted')
+    assert.equal(error.message, 'This project is frozen while it is under review.')
+  })
+
+  it('shows unknown revert strings as-is', () => {
+    assert.equal(decodeTransactionError(revertString('Milestone already paid')).message, 'Milestone already paid')
+  })
+
+  it('falls back to the reason when the revert was not decoded', () => {
+    const error = decodeTransactionError(callException({ reason: 'Refund already claimed' }))
+    assert.equal(error.message, 'You have already claimed your refund.')
+  })
+
+  it('decodes escrow custom errors from raw revert data', () => {
+    const data = new Interface(ProjectEscrow__factory.abi).encodeErrorResult('EnforcedPause', [])
+    assert.equal(
+      decodeTransactionError(callException({ data })).message,
+      'ImpactChain is paused. Donations, payouts and project completion are disabled for now.'
+    )
+  })
+
+  it('decodes token custom errors from raw revert data', () => {
+    const data = new Interface(IERC20Errors__factory.abi).encodeErrorResult('ERC20InsufficientBalance', [
+      DONOR,
+      BigInt(1),
+      BigInt(2),
+    ])
+    assert.equal(
+      decodeTransactionError(callException({ data })).message,
+      "You don't have enough tokens for this donation."
+    )
+  })
+
+  it('reports a generic revert for unknown error selectors', () => {
+    const error = decodeTransactionError(callException({ data: '0xdeadbeef' }))
+    assert.equal(error.kind, 'reverted')
+    assert.equal(error.message, 'The transaction was reverted by the contract.')
+  })
+
+  it('recognises wallet rejections, replacements and missing gas funds', () => {
+    const rejected = makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' })
+    assert.equal(decodeTransactionError(rejected).kind, 'rejected')
+
+    const cancelled = makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+      cancelled: true,
+      reason: 'cancelled',
+      hash: '0x01',
+      replacement: null as never,
+      receipt: null as never,
+    })
+    assert.equal(decodeTransactionError(cancelled).kind, 'replaced')
+    assert.equal(decodeTransactionError(cancelled).message, 'The transaction was cancelled from your wallet.')
+
+    const broke = makeError('insufficient funds', 'INSUFFICIENT_FUNDS', { transaction: {} })
+    assert.equal(decodeTransactionError(broke).kind, 'failed')
+  })
+
+  it('keeps TransactionErrors and wraps anything else', () => {
+    const original = new TransactionError('replaced', 'Replaced')
+    assert.equal(decodeTransactionError(original), original)
+
+    const error = decodeTransactionError(new Error('network down'))
+    assert.equal(error.kind, 'failed')
+    assert.equal(error.message, 'network down')
+  })
+})
@@ -0,0 +1,319 @@
+import {
+  type ContractTransactionResponse,
+  type Provider,
+  type TransactionReceipt,
+  type TransactionResponse,
+  Interface,
+  isError,
+} from 'ethers'
+import { IERC20Errors__factory, ProjectEscrow__factory, SafeERC20__factory } from '@impactchain/contracts'
+
+// Tracks every transaction ContractService sends, from the wallet prompt to its receipt.
+// Submitted transactions are kept in localStorage so a reload can pick them back up.
+
+export type TransactionStatus = 'confirming' | 'submitted' | 'mined' | 'failed'
+
+// The ContractService write that sent a transaction
+export type TransactionAction =
+  | 'pause'
+  | 'unpause'
+  | 'freezeProject'
+  | 'unfreezeProject'
+  | 'approveToken'
+  | 'donate'
+  | 'cancelProject'
+  | 'claimRefund'
+  | 'verifyMilestone'
+  | 'approveMilestone'
+  | 'rejectMilestone'
+  | 'submitMilestoneEvidence'
+  | 'revokeMilestoneApproval'
+  | 'raiseDispute'
+  | 'resolveDispute'
+  | 'payMilestone'
+  | 'completeProject'
+  | 'createProject'
+  | 'reportImpact'
+  | 'registerNGO'
+  | 'updateNGOProfile'
+  | 'setNGOStatus'
+
+export const TRANSACTION_LABELS: Record<TransactionAction, string> = {
+  pause: 'Pause escrow',
+  unpause: 'Unpause escrow',
+  freezeProject: 'Freeze project',
+  unfreezeProject: 'Unfreeze project',
+  approveToken: 'Approve token spending',
+  donate: 'Donation',
+  cancelProject: 'Cancel project',
+  claimRefund: 'Refund claim',
+  verifyMilestone: 'Verify milestone',
+  approveMilestone: 'Approve milestone',
+  rejectMilestone: 'Reject milestone',
+  submitMilestoneEvidence: 'Submit evidence',
+  revokeMilestoneApproval: 'Revoke approval',
+  raiseDispute: 'Raise dispute',
+  resolveDispute: 'Resolve dispute',
+  payMilestone: 'Milestone payout',
+  completeProject: 'Complete project',
+  createProject: 'Create project',
+  reportImpact: 'Report impact',
+  registerNGO: 'Register NGO',
+  updateNGOProfile: 'Update NGO profile',
+  setNGOStatus: 'Change NGO status',
+}
+
+export interface TrackedTransaction {
+  // The transaction hash once submitted, a local ID while the wallet is open
+  id: string
+  action: TransactionAction
+  projectId?: number
+  status: TransactionStatus
+  hash?: string
+  from?: string
+  nonce?: number
+  // Block the transaction was sent at, so a reloaded page can still spot a replacement
+  startBlock?: number
+  // Hash of the sped-up transaction that was mined in its place
+  replacedBy?: string
+  error?: string
+  createdAt: number
+}
+
+export type TransactionErrorKind = 'rejected' | 'reverted' | 'replaced' | 'failed'
+
+export class TransactionError extends Error {
+  constructor(
+    readonly kind: TransactionErrorKind,
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message)
+    this.name = 'TransactionError'
+  }
+}
+
+// Contract revert reasons reworded for donors and NGOs. Reasons not listed are shown as-is.
+const REVERT_MESSAGES: Record<string, string> = {
+  'Donation exceeds the required amount': 'That donation is more than the project still needs. Try a smaller amount.',
+  'Donation must be greater than zero': 'Enter an amount greater than zero.',
+  'Project is already fully funded': 'This project is already fully funded.',
+  'Funding deadline has passed': 'The funding deadline for this project has passed.',
+  'Project funding has expired': 'The funding deadline for this project has passed.',
+  'Project is frozen': 'This project is frozen while it is under review.',
+  'Project is cancelled': 'This project has been cancelled.',
+  'Project already completed': 'This project is already complete.',
+  'Project only accepts ETH donations': 'This project only accepts ETH.',
+  'Project only accepts token donations': "This project doesn't accept ETH. Donate in its funding token instead.",
+  'Refunds are not available': 'Refunds are only available for cancelled or underfunded projects.',
+  'Refund already claimed': 'You have already claimed your refund.',
+  'Nothing to refund': 'You have nothing to refund for this project.',
+  'Challenge window still open': 'Donors can still dispute this milestone. Try again once the challenge window closes.',
+  'Challenge window has closed': 'The challenge window for this milestone has closed.',
+  'Only donors can raise disputes': 'Only donors to this project can raise a dispute.',
+  'Not all milestones are paid': 'Every milestone has to be paid before the project can be completed.',
+  'Impact has not been reported': 'The NGO has to report its impact before the project can be completed.',
+  'NGO is not registered and active': 'That address is not a verified NGO.',
+  'Insufficient project funds': "The project hasn't raised enough to pay this milestone.",
+}
+
+// Custom errors from OpenZeppelin, keyed by error name
+const CUSTOM_ERROR_MESSAGES: Record<string, string> = {
+  AccessControlUnauthorizedAccount: "Your account doesn't have the role this action needs.",
+  EnforcedPause: 'ImpactChain is paused. Donations, payouts and project completion are disabled for now.',
+  ReentrancyGuardReentrantCall: 'The contract rejected a re-entrant call.',
+  ERC20InsufficientBalance: "You don't have enough tokens for this donation.",
+  ERC20InsufficientAllowance: "The escrow isn't approved to spend that many of your tokens.",
+  SafeERC20FailedOperation: 'The token transfer failed.',
+}
+
+// Every custom error the escrow, or a token it moves, can revert with
+const ERROR_INTERFACE = new Interface(
+  [...ProjectEscrow__factory.abi, ...IERC20Errors__factory.abi, ...SafeERC20__factory.abi].filter(
+    (fragment, i, all) =>
+      fragment.type === 'error' && all.findIndex((f) => f.type === 'error' && f.name === fragment.name) === i
+  )
+)
+
+// Pull the revert reason or custom error name out of an ethers error
+function getRevertReason(err: unknown): string | null {
+  if (!isError(err, 'CALL_EXCEPTION')) return null
+  if (err.revert) {
+    return err.revert.name === 'Error' ? String(err.revert.args[0]) : err.revert.name
+  }
+  if (err.reason) return err.reason
+  if (err.data) {
+    try {
+      const parsed = ERROR_INTERFACE.parseError(err.data)
+      if (parsed) return parsed.name
+    } catch {
+      // Unknown error selector
+    }
+  }
+  return null
+}
+
+// Turn anything thrown while sending or mining into a TransactionError with a readable message
+export function decodeTransactionError(err: unknown): TransactionError {
+  if (err instanceof TransactionError) return err
+  if (isError(err, 'ACTION_REJECTED')) {
+    return new TransactionError('rejected', 'You rejected the transaction in your wallet.', err)
+  }
+  if (isError(err, 'TRANSACTION_REPLACED')) {
+    return new TransactionError(
+      'replaced',
+      err.reason === 'cancelled'
+        ? 'The transaction was cancelled from your wallet.'
+        : 'The transaction was replaced by another one from your wallet.',
+      err
+    )
+  }
+  if (isError(err, 'INSUFFICIENT_FUNDS')) {
+    return new TransactionError('failed', "Your wallet doesn't have enough ETH to cover this transaction and gas.", err)
+  }
+  if (isError(err, 'CALL_EXCEPTION')) {
+    const reason = getRevertReason(err)
+    const message = reason
+      ? REVERT_MESSAGES[reason] ?? CUSTOM_ERROR_MESSAGES[reason] ?? reason
+      : 'The transaction was reverted by the contract.'
+    return new TransactionError('reverted', message, err)
+  }
+  const message = (err as { shortMessage?: string })?.shortMessage ?? (err instanceof Error ? err.message : null)
+  return new TransactionError('failed', message || 'Transaction failed', err)
+}
+
+const STORAGE_KEY = 'impactchain:transactions'
+const MAX_STORED_TRANSACTIONS = 50
+
+export type TransactionListener = (transactions: TrackedTransaction[]) => void
+
+export class TransactionManager {
+  private transactions: TrackedTransaction[] = this.load();
+  private listeners = new Set<TransactionListener>();
+  private resuming = new Set<string>();
+  private nextLocalId = 0;
+
+  getTransactions(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  subscribe(listener: TransactionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Send a transaction and follow it to its receipt. Failures are rethrown as TransactionError.
+  async track(
+    action: TransactionAction,
+    request: Promise<ContractTransactionResponse>,
+    projectId?: number
+  ): Promise<TransactionReceipt> {
+    const localId = `local-${Date.now()}-${this.nextLocalId++}`;
+    this.add({ id: localId, action, projectId, status: 'confirming', createdAt: Date.now() });
+
+    let tx: ContractTransactionResponse;
+    let startBlock: number | undefined;
+    try {
+      tx = await request;
+      startBlock = await tx.provider.getBlockNumber().catch(() => undefined);
+    } catch (err) {
+      throw this.fail(localId, err);
+    }
+
+    this.update(localId, {
+      id: tx.hash,
+      hash: tx.hash,
+      from: tx.from,
+      nonce: tx.nonce,
+      startBlock,
+      status: 'submitted',
+    });
+    // Contract responses drop the signer's replacement tracking, so restore it
+    return await this.waitFor(tx.hash, startBlock === undefined ? tx : tx.replaceableTransaction(startBlock));
+  }
+
+  // Re-attach to transactions a previous page load left pending
+  resume(provider: Provider) {
+    for (const entry of this.transactions) {
+      if (entry.status !== 'submitted' || !entry.hash || this.resuming.has(entry.id)) continue;
+      this.resuming.add(entry.id);
+      this.resumeOne(provider, entry).finally(() => this.resuming.delete(entry.id));
+    }
+  }
+
+  private async resumeOne(provider: Provider, entry: TrackedTransaction) {
+    try {
+      const tx = await provider.getTransaction(entry.hash!);
+      if (tx) {
+        await this.waitFor(entry.id, entry.startBlock === undefined ? tx : tx.replaceableTransaction(entry.startBlock));
+        return;
+      }
+      // The node no longer knows it: replaced if its nonce has been used since, otherwise still pending elsewhere
+      if (entry.from && entry.nonce !== undefined && (await provider.getTransactionCount(entry.from)) > entry.nonce) {
+        this.update(entry.id, {
+          status: 'failed',
+          error: 'The transaction was replaced by another one from your wallet.',
+        });
+      }
+    } catch (err) {
+      // waitFor has already recorded the failure
+      if (!(err instanceof TransactionError)) console.error('Error resuming transaction:', err);
+    }
+  }
+
+  private async waitFor(id: string, tx: TransactionResponse): Promise<TransactionReceipt> {
+    try {
+      const receipt = await tx.wait();
+      this.update(id, { status: 'mined' });
+      return receipt!;
+    } catch (err) {
+      // Sped up in the wallet: the same call was mined under a new hash
+      if (isError(err, 'TRANSACTION_REPLACED') && !err.cancelled) {
+        this.update(id, { status: 'mined', replacedBy: err.replacement.hash });
+        return err.receipt;
+      }
+      throw this.fail(id, err);
+    }
+  }
+
+  private fail(id: string, err: unknown): TransactionError {
+    const error = decodeTransactionError(err);
+    this.update(id, { status: 'failed', error: error.message });
+    return error;
+  }
+
+  private add(entry: TrackedTransaction) {
+    this.transactions = [...this.transactions, entry];
+    this.changed();
+  }
+
+  private update(id: string, changes: Partial<TrackedTransaction>) {
+    this.transactions = this.transactions.map((t) => (t.id === id ? { ...t, ...changes } : t));
+    this.changed();
+  }
+
+  private changed() {
+    this.save();
+    this.listeners.forEach((listener) => listener(this.transactions));
+  }
+
+  private load(): TrackedTransaction[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  // Only submitted transactions have a hash worth keeping across reloads
+  private save() {
+    if (typeof window === 'undefined') return;
+    const stored = this.transactions.filter((t) => t.hash).slice(-MAX_STORED_TRANSACTIONS);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+}
+
+export const transactionManager = new TransactionManager()
@@ -3,6 +3,7 @@ interface Window {
     isMetaMask?: boolean;
     request: (...args: any[]) => Promise<any>;
     on: (event: string, callback: (...args: any[]) => void) => void;
+    removeListener: (event: string, callback: (...args: any[]) => void) => void;
     removeAllListeners: () => void;
     selectedAddress?: string;
     networkVersion?: string;
@@ -7,7 +7,25 @@ const AMOY_RPC_URL = process.env.AMOY_RPC_URL || "https://polygon-amoy.infura.io
 
 /** @type import('hardhat/config').HardhatUserConfig */
 module.exports = {
-  solidity: "0.8.24",
+  solidity: {
+    version: "0.8.24",
+    settings: {
+      // ProjectEscrow exceeds the 24KB contract size limit without the optimizer and the IR pipeline.
+      // Runs are tuned for deployed size over call cost for the same reason.
+      viaIR: true,
+      optimizer: {
+        enabled: true,
+        runs: 100,
+      },
+    },
+  },
+  // Typed ethers bindings shared by the frontend, indexer and scripts. hardhat-toolbox
+  // skips type generation for JavaScript configs unless dontOverrideCompile is set.
+  typechain: {
+    outDir: "typechain-types",
+    target: "ethers-v6",
+    dontOverrideCompile: false,
+  },
   networks: {
     localhost: {
       url: "http://127.0.0.1:8545",
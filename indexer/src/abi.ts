@@ -0,0 +1,22 @@
+import type { Interface } from 'ethers'
+import { ProjectEscrow__factory } from '../../typechain-types'
+
+// Generated from the compiled contract; run `npx hardhat compile` in the repository root first
+export const projectEscrowInterface: Interface = ProjectEscrow__factory.createInterface()
+
+// The ProjectEscrow events the indexer stores
+export const PROJECT_ESCROW_EVENTS = [
+  'ProjectCreated',
+  'FundingTokenSet',
+  'ProjectFunded',
+  'MilestoneVerified',
+  'MilestonePaid',
+  'ProjectCompleted',
+  'ImpactTokenAwarded',
+  'ProjectCancelled',
+  'RefundClaimed',
+] as const
+
+export const PROJECT_ESCROW_EVENT_TOPICS = PROJECT_ESCROW_EVENTS.map(
+  (name) => projectEscrowInterface.getEvent(name)!.topicHash
+)
@@ -0,0 +1,16 @@
+// Indexer settings, read from the environment with local Hardhat defaults
+export const indexerConfig = {
+  rpcUrl: process.env.INDEXER_RPC_URL || 'http://127.0.0.1:8545',
+  projectEscrowAddress: process.env.PROJECT_ESCROW_ADDRESS || '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+  // Block the escrow was deployed in; nothing earlier is scanned
+  startBlock: Number(process.env.INDEXER_START_BLOCK) || 0,
+  // Blocks to stay behind the head. Reorgs within this window are never seen.
+  confirmations: Number(process.env.INDEXER_CONFIRMATIONS) || 0,
+  // Maximum block range per eth_getLogs request
+  batchSize: Number(process.env.INDEXER_BATCH_SIZE) || 2000,
+  pollIntervalMs: Number(process.env.INDEXER_POLL_INTERVAL_MS) || 2000,
+  dbPath: process.env.INDEXER_DB_PATH || 'impactchain.db',
+  port: Number(process.env.INDEXER_PORT) || 4000,
+}
+
+export type IndexerConfig = typeof indexerConfig
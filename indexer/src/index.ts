@@ -0,0 +1,40 @@
+import { JsonRpcProvider } from 'ethers'
+import { indexerConfig } from './config'
+import { ImpactChainIndexer } from './indexer'
+import { IndexerQueries } from './queries'
+import { createIndexerServer } from './server'
+import { IndexerStore } from './store'
+
+export { ImpactChainIndexer } from './indexer'
+export { IndexerQueries } from './queries'
+export { IndexerStore } from './store'
+export * from './types'
+
+async function main() {
+  const store = new IndexerStore(indexerConfig.dbPath);
+  // Without a block-number cache every poll sees the real head
+  const provider = new JsonRpcProvider(indexerConfig.rpcUrl, undefined, { cacheTimeout: -1 });
+  const indexer = new ImpactChainIndexer(provider, store, indexerConfig);
+  const server = createIndexerServer(new IndexerQueries(store.db));
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+    provider.destroy();
+    store.close();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  server.listen(indexerConfig.port, () => {
+    console.log(`Indexer API listening on http://localhost:${indexerConfig.port}`);
+  });
+  await indexer.run();
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,120 @@
+import type { JsonRpcProvider, Log } from 'ethers'
+import { PROJECT_ESCROW_EVENT_TOPICS, projectEscrowInterface } from './abi'
+import type { IndexerConfig } from './config'
+import type { IndexedBlock, IndexedEvent, IndexerStore } from './store'
+
+// Backfills ProjectEscrow events into the store and then follows the chain head,
+// rolling back whatever a reorg replaced before indexing the new branch
+export class ImpactChainIndexer {
+  private stopped = false
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(
+    private readonly provider: JsonRpcProvider,
+    private readonly store: IndexerStore,
+    private readonly config: IndexerConfig
+  ) {}
+
+  /**
+   * Index up to the confirmed head once
+   * @returns The last indexed block
+   */
+  async sync(): Promise<number> {
+    await this.handleReorg();
+
+    const head = (await this.provider.getBlockNumber()) - this.config.confirmations;
+    let from = (this.store.getLastBlock() ?? this.config.startBlock - 1) + 1;
+    while (from <= head && !this.stopped) {
+      const to = Math.min(from + this.config.batchSize - 1, head);
+      await this.indexRange(from, to);
+      from = to + 1;
+    }
+    return this.store.getLastBlock() ?? this.config.startBlock - 1;
+  }
+
+  // Sync now and then every poll interval until stop() is called
+  async run() {
+    this.stopped = false;
+    const tick = async () => {
+      try {
+        const last = await this.sync();
+        console.log(`Indexed through block ${last}`);
+      } catch (err) {
+        console.error('Indexer sync failed:', err);
+      }
+      if (!this.stopped) {
+        this.timer = setTimeout(tick, this.config.pollIntervalMs);
+      }
+    };
+    await tick();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+  }
+
+  // If the last indexed block is no longer canonical, walk back to the newest
+  // recorded block that still is and drop everything after it
+  private async handleReorg() {
+    const last = this.store.getLastBlock();
+    if (last === null || last < this.config.startBlock) return;
+    if (await this.isCanonical(last, this.store.getBlockHash(last))) return;
+
+    let ancestor = this.config.startBlock - 1;
+    for (const block of this.store.getBlocksDescending()) {
+      if (await this.isCanonical(block.number, block.hash)) {
+        ancestor = block.number;
+        break;
+      }
+    }
+
+    console.warn(`Reorg detected at block ${last}, rolling back to block ${ancestor}`);
+    this.store.rollbackTo(ancestor);
+  }
+
+  private async isCanonical(blockNumber: number, hash: string | null): Promise<boolean> {
+    const block = await this.provider.getBlock(blockNumber);
+    return block !== null && block.hash === hash;
+  }
+
+  private async indexRange(from: number, to: number) {
+    const logs = await this.provider.getLogs({
+      address: this.config.projectEscrowAddress,
+      topics: [PROJECT_ESCROW_EVENT_TOPICS],
+      fromBlock: from,
+      toBlock: to,
+    });
+
+    // Record every block with events plus the range end, which anchors the next reorg check
+    const blockNumbers = [...new Set([...logs.map((log) => log.blockNumber), to])];
+    const blocks: IndexedBlock[] = await Promise.all(
+      blockNumbers.map(async (n) => {
+        const block = await this.provider.getBlock(n);
+        if (!block || !block.hash) throw new Error(`Block ${n} not found`);
+        return { number: n, hash: block.hash, timestamp: block.timestamp };
+      })
+    );
+
+    // Logs from a block that was replaced while we were fetching would be stale; retry next poll
+    const hashes = new Map(blocks.map((b) => [b.number, b.hash]));
+    for (const log of logs) {
+      if (hashes.get(log.blockNumber) !== log.blockHash) {
+        throw new Error(`Block ${log.blockNumber} changed during sync`);
+      }
+    }
+
+    this.store.applyBatch(to, blocks, logs.map(toIndexedEvent));
+  }
+}
+
+function toIndexedEvent(log: Log): IndexedEvent {
+  const parsed = projectEscrowInterface.parseLog(log)!;
+  return {
+    name: parsed.name,
+    args: parsed.args,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+  };
+}
@@ -0,0 +1,216 @@
+import type Database from 'better-sqlite3'
+import { ZeroAddress, getAddress } from 'ethers'
+import type { DonationRecord, DonorRanking, IndexedProject, PayoutRecord, SyncStatus } from './types'
+
+// Row shapes of the queries below; uint256 amounts come back as decimal text
+
+interface ProjectRow {
+  project_id: number
+  creator: string
+  total_amount: string
+  created_block: number
+  created_at: number
+  funding_token: string
+  total_donated: string
+  donation_count: number
+  total_refunded: string
+  total_paid_out: string
+  is_complete: number
+  is_cancelled: number
+  impact_token_id: string | null
+}
+
+interface DonationRow {
+  project_id: number
+  donor: string
+  amount: string
+  funding_token: string
+  block_number: number
+  timestamp: number
+  tx_hash: string
+}
+
+interface PayoutRow {
+  project_id: number
+  milestone_index: number
+  amount: string
+  recipient: string
+  funding_token: string
+  verified_at: number | null
+  paid_at: number
+  block_number: number
+  tx_hash: string
+}
+
+interface LeaderboardRow {
+  donor: string
+  total_donated: string
+  total_refunded: string
+  donation_count: number
+  project_count: number
+}
+
+const PROJECT_SELECT = `
+  SELECT
+    p.project_id, p.creator, p.total_amount, p.block_number AS created_block, b.timestamp AS created_at,
+    COALESCE(ft.token, '${ZeroAddress}') AS funding_token,
+    (SELECT bigsum(f.amount) FROM project_funded f WHERE f.project_id = p.project_id) AS total_donated,
+    (SELECT COUNT(*) FROM project_funded f WHERE f.project_id = p.project_id) AS donation_count,
+    (SELECT bigsum(r.amount) FROM refund_claimed r WHERE r.project_id = p.project_id) AS total_refunded,
+    (SELECT bigsum(m.amount) FROM milestone_paid m WHERE m.project_id = p.project_id) AS total_paid_out,
+    EXISTS (SELECT 1 FROM project_completed c WHERE c.project_id = p.project_id) AS is_complete,
+    EXISTS (SELECT 1 FROM project_cancelled x WHERE x.project_id = p.project_id) AS is_cancelled,
+    (SELECT i.token_id FROM impact_token_awarded i WHERE i.project_id = p.project_id) AS impact_token_id
+  FROM project_created p
+  JOIN blocks b ON b.number = p.block_number
+  LEFT JOIN funding_token_set ft ON ft.project_id = p.project_id
+`
+
+const DONATION_SELECT = `
+  SELECT f.project_id, f.donor, f.amount, COALESCE(ft.token, '${ZeroAddress}') AS funding_token,
+    f.block_number, b.timestamp, f.tx_hash
+  FROM project_funded f
+  JOIN blocks b ON b.number = f.block_number
+  LEFT JOIN funding_token_set ft ON ft.project_id = f.project_id
+`
+
+// Read-only views over the indexed events. Addresses are compared in checksum form.
+export class IndexerQueries {
+  constructor(private readonly db: Database.Database) {}
+
+  getProjects(): IndexedProject[] {
+    return (this.db.prepare(`${PROJECT_SELECT} ORDER BY p.project_id`).all() as ProjectRow[]).map(toProject);
+  }
+
+  getProject(projectId: number): IndexedProject | null {
+    const row = this.db.prepare(`${PROJECT_SELECT} WHERE p.project_id = ?`).get(projectId) as ProjectRow | undefined;
+    return row ? toProject(row) : null;
+  }
+
+  // Donations to a project, oldest first
+  getProjectDonations(projectId: number): DonationRecord[] {
+    const rows = this.db
+      .prepare(`${DONATION_SELECT} WHERE f.project_id = ? ORDER BY f.block_number, f.log_index`)
+      .all(projectId) as DonationRow[];
+    return rows.map(toDonation);
+  }
+
+  // Every donation made by one address, newest first
+  getDonorDonations(donor: string): DonationRecord[] {
+    const rows = this.db
+      .prepare(`${DONATION_SELECT} WHERE f.donor = ? ORDER BY f.block_number DESC, f.log_index DESC`)
+      .all(getAddress(donor)) as DonationRow[];
+    return rows.map(toDonation);
+  }
+
+  /**
+   * Milestone payouts in the order they were made
+   * @param projectId Limit to one project; all projects when omitted
+   */
+  getPayoutHistory(projectId?: number): PayoutRecord[] {
+    const rows = this.db
+      .prepare(
+        `SELECT m.project_id, m.milestone_index, m.amount, p.creator AS recipient,
+          COALESCE(ft.token, '${ZeroAddress}') AS funding_token,
+          (SELECT MAX(vb.timestamp) FROM milestone_verified v JOIN blocks vb ON vb.number = v.block_number
+            WHERE v.project_id = m.project_id AND v.milestone_index = m.milestone_index
+              AND v.block_number <= m.block_number) AS verified_at,
+          b.timestamp AS paid_at, m.block_number, m.tx_hash
+        FROM milestone_paid m
+        JOIN blocks b ON b.number = m.block_number
+        JOIN project_created p ON p.project_id = m.project_id
+        LEFT JOIN funding_token_set ft ON ft.project_id = m.project_id
+        ${projectId === undefined ? '' : 'WHERE m.project_id = @projectId'}
+        ORDER BY m.block_number, m.log_index`
+      )
+      .all(projectId === undefined ? {} : { projectId }) as PayoutRow[];
+
+    return rows.map((row) => ({
+      projectId: row.project_id,
+      milestoneIndex: row.milestone_index,
+      recipient: row.recipient,
+      amount: BigInt(row.amount),
+      fundingToken: row.funding_token,
+      verifiedAt: row.verified_at,
+      paidAt: row.paid_at,
+      blockNumber: row.block_number,
+      txHash: row.tx_hash,
+    }));
+  }
+
+  /**
+   * Top donors by total donated, less what they were refunded. Amounts in different
+   * currencies don't add up, so the leaderboard is per funding token.
+   * Donors refunded in full are left out.
+   * @param fundingToken Token to rank by, the zero address for ETH
+   * @param limit Number of donors to return
+   */
+  getDonorLeaderboard(fundingToken: string = ZeroAddress, limit = 10): DonorRanking[] {
+    const rows = this.db
+      .prepare(
+        `SELECT f.donor, bigsum(f.amount) AS total_donated, COUNT(*) AS donation_count,
+          COUNT(DISTINCT f.project_id) AS project_count,
+          (SELECT bigsum(r.amount) FROM refund_claimed r
+            LEFT JOIN funding_token_set rt ON rt.project_id = r.project_id
+            WHERE r.donor = f.donor AND COALESCE(rt.token, '${ZeroAddress}') = @token) AS total_refunded
+        FROM project_funded f
+        LEFT JOIN funding_token_set ft ON ft.project_id = f.project_id
+        WHERE COALESCE(ft.token, '${ZeroAddress}') = @token
+        GROUP BY f.donor`
+      )
+      .all({ token: getAddress(fundingToken) }) as LeaderboardRow[];
+
+    // SQLite can only order the text totals lexically, so rank them as bigints here
+    return rows
+      .map((row) => ({
+        donor: row.donor,
+        totalDonated: BigInt(row.total_donated) - BigInt(row.total_refunded),
+        donationCount: row.donation_count,
+        projectCount: row.project_count,
+      }))
+      .filter((ranking) => ranking.totalDonated > BigInt(0))
+      .sort((a, b) => (a.totalDonated === b.totalDonated ? 0 : a.totalDonated > b.totalDonated ? -1 : 1))
+      .slice(0, limit)
+      .map((ranking, i) => ({ rank: i + 1, ...ranking }));
+  }
+
+  getSyncStatus(): SyncStatus {
+    const row = this.db
+      .prepare('SELECT s.last_block, b.hash FROM sync_state s LEFT JOIN blocks b ON b.number = s.last_block')
+      .get() as { last_block: number; hash: string | null } | undefined;
+    return {
+      lastIndexedBlock: row ? row.last_block : -1,
+      lastIndexedBlockHash: row ? row.hash : null,
+    };
+  }
+}
+
+function toProject(row: ProjectRow): IndexedProject {
+  return {
+    projectId: row.project_id,
+    creator: row.creator,
+    totalAmount: BigInt(row.total_amount),
+    fundingToken: row.funding_token,
+    totalDonated: BigInt(row.total_donated) - BigInt(row.total_refunded),
+    donationCount: row.donation_count,
+    totalRefunded: BigInt(row.total_refunded),
+    totalPaidOut: BigInt(row.total_paid_out),
+    isComplete: row.is_complete === 1,
+    isCancelled: row.is_cancelled === 1,
+    impactTokenId: row.impact_token_id === null ? null : BigInt(row.impact_token_id),
+    createdAt: row.created_at,
+    createdBlock: row.created_block,
+  };
+}
+
+function toDonation(row: DonationRow): DonationRecord {
+  return {
+    projectId: row.project_id,
+    donor: row.donor,
+    amount: BigInt(row.amount),
+    fundingToken: row.funding_token,
+    blockNumber: row.block_number,
+    timestamp: row.timestamp,
+    txHash: row.tx_hash,
+  };
+}
@@ -0,0 +1,70 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import type { IndexerQueries } from './queries'
+
+// JSON has no bigint, so amounts and token IDs go over the wire as decimal strings
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+/**
+ * Read-only HTTP API over the indexed data:
+ *   GET /status
+ *   GET /projects
+ *   GET /projects/:id
+ *   GET /projects/:id/donations
+ *   GET /projects/:id/payouts
+ *   GET /payouts
+ *   GET /donors/:address/donations
+ *   GET /leaderboard?token=0x...&limit=10
+ */
+export function createIndexerServer(queries: IndexerQueries) {
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    try {
+      if (parts[0] === 'status' && parts.length === 1) {
+        sendJson(res, 200, queries.getSyncStatus());
+      } else if (parts[0] === 'projects' && parts.length === 1) {
+        sendJson(res, 200, queries.getProjects());
+      } else if (parts[0] === 'projects' && parts.length <= 3) {
+        const projectId = Number(parts[1]);
+        if (!Number.isInteger(projectId)) {
+          sendJson(res, 400, { error: 'Invalid project ID' });
+        } else if (parts[2] === 'donations') {
+          sendJson(res, 200, queries.getProjectDonations(projectId));
+        } else if (parts[2] === 'payouts') {
+          sendJson(res, 200, queries.getPayoutHistory(projectId));
+        } else if (parts.length === 2) {
+          const project = queries.getProject(projectId);
+          if (project) sendJson(res, 200, project);
+          else sendJson(res, 404, { error: 'Project not found' });
+        } else {
+          sendJson(res, 404, { error: 'Not found' });
+        }
+      } else if (parts[0] === 'payouts' && parts.length === 1) {
+        sendJson(res, 200, queries.getPayoutHistory());
+      } else if (parts[0] === 'donors' && parts[2] === 'donations' && parts.length === 3) {
+        sendJson(res, 200, queries.getDonorDonations(parts[1]));
+      } else if (parts[0] === 'leaderboard' && parts.length === 1) {
+        const token = url.searchParams.get('token') ?? undefined;
+        const limit = Number(url.searchParams.get('limit')) || undefined;
+        sendJson(res, 200, queries.getDonorLeaderboard(token, limit));
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (err) {
+      // Bad addresses in the path or query string are the usual cause
+      sendJson(res, 400, { error: err instanceof Error ? err.message : 'Bad request' });
+    }
+  });
+}
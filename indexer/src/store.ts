@@ -0,0 +1,205 @@
+import Database from 'better-sqlite3'
+import type { Result } from 'ethers'
+
+// Every event table carries its position in the chain, so a reorg can be
+// undone by deleting rows above the last block both chains agree on
+const EVENT_COLUMNS = 'block_number INTEGER NOT NULL, log_index INTEGER NOT NULL, tx_hash TEXT NOT NULL, PRIMARY KEY (block_number, log_index)'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sync_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    last_block INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS project_created (
+    project_id INTEGER NOT NULL, creator TEXT NOT NULL, total_amount TEXT NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE TABLE IF NOT EXISTS funding_token_set (
+    project_id INTEGER NOT NULL, token TEXT NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE TABLE IF NOT EXISTS project_funded (
+    project_id INTEGER NOT NULL, donor TEXT NOT NULL, amount TEXT NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE TABLE IF NOT EXISTS milestone_verified (
+    project_id INTEGER NOT NULL, milestone_index INTEGER NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE TABLE IF NOT EXISTS milestone_paid (
+    project_id INTEGER NOT NULL, milestone_index INTEGER NOT NULL, amount TEXT NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE TABLE IF NOT EXISTS project_completed (
+    project_id INTEGER NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE TABLE IF NOT EXISTS impact_token_awarded (
+    project_id INTEGER NOT NULL, token_id TEXT NOT NULL, recipient TEXT NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE TABLE IF NOT EXISTS project_cancelled (
+    project_id INTEGER NOT NULL, cancelled_by TEXT NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE TABLE IF NOT EXISTS refund_claimed (
+    project_id INTEGER NOT NULL, donor TEXT NOT NULL, amount TEXT NOT NULL, ${EVENT_COLUMNS}
+  );
+  CREATE INDEX IF NOT EXISTS project_funded_project ON project_funded (project_id);
+  CREATE INDEX IF NOT EXISTS project_funded_donor ON project_funded (donor);
+  CREATE INDEX IF NOT EXISTS milestone_paid_project ON milestone_paid (project_id);
+  CREATE INDEX IF NOT EXISTS refund_claimed_project ON refund_claimed (project_id);
+  CREATE INDEX IF NOT EXISTS refund_claimed_donor ON refund_claimed (donor);
+`
+
+// Maps each indexed event onto its table; uint256 amounts are stored as decimal text
+const EVENT_TABLES: Record<string, { table: string; columns: string[]; values: (args: Result) => unknown[] }> = {
+  ProjectCreated: {
+    table: 'project_created',
+    columns: ['project_id', 'creator', 'total_amount'],
+    values: (a) => [Number(a.projectId), a.creator, a.totalAmount.toString()],
+  },
+  FundingTokenSet: {
+    table: 'funding_token_set',
+    columns: ['project_id', 'token'],
+    values: (a) => [Number(a.projectId), a.token],
+  },
+  ProjectFunded: {
+    table: 'project_funded',
+    columns: ['project_id', 'donor', 'amount'],
+    values: (a) => [Number(a.projectId), a.donor, a.amount.toString()],
+  },
+  MilestoneVerified: {
+    table: 'milestone_verified',
+    columns: ['project_id', 'milestone_index'],
+    values: (a) => [Number(a.projectId), Number(a.milestoneIndex)],
+  },
+  MilestonePaid: {
+    table: 'milestone_paid',
+    columns: ['project_id', 'milestone_index', 'amount'],
+    values: (a) => [Number(a.projectId), Number(a.milestoneIndex), a.amount.toString()],
+  },
+  ProjectCompleted: {
+    table: 'project_completed',
+    columns: ['project_id'],
+    values: (a) => [Number(a.projectId)],
+  },
+  ImpactTokenAwarded: {
+    table: 'impact_token_awarded',
+    columns: ['project_id', 'token_id', 'recipient'],
+    values: (a) => [Number(a.projectId), a.tokenId.toString(), a.recipient],
+  },
+  ProjectCancelled: {
+    table: 'project_cancelled',
+    columns: ['project_id', 'cancelled_by'],
+    values: (a) => [Number(a.projectId), a.cancelledBy],
+  },
+  RefundClaimed: {
+    table: 'refund_claimed',
+    columns: ['project_id', 'donor', 'amount'],
+    values: (a) => [Number(a.projectId), a.donor, a.amount.toString()],
+  },
+}
+
+export interface IndexedBlock {
+  number: number
+  hash: string
+  timestamp: number
+}
+
+export interface IndexedEvent {
+  name: string
+  args: Result
+  blockNumber: number
+  logIndex: number
+  txHash: string
+}
+
+export class IndexerStore {
+  readonly db: Database.Database
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    // SUM over uint256 decimal text without losing precision
+    this.db.aggregate<bigint>('bigsum', {
+      start: () => BigInt(0),
+      step: (total, value: bigint | string | null) => (value === null ? total : total + BigInt(value)),
+      result: (total: bigint) => total.toString(),
+    });
+  }
+
+  getLastBlock(): number | null {
+    const row = this.db.prepare('SELECT last_block FROM sync_state WHERE id = 1').get() as
+      | { last_block: number }
+      | undefined;
+    return row ? row.last_block : null;
+  }
+
+  getBlockHash(blockNumber: number): string | null {
+    const row = this.db.prepare('SELECT hash FROM blocks WHERE number = ?').get(blockNumber) as
+      | { hash: string }
+      | undefined;
+    return row ? row.hash : null;
+  }
+
+  // Recorded blocks, newest first, for walking back to a common ancestor
+  getBlocksDescending(): IndexedBlock[] {
+    return this.db.prepare('SELECT number, hash, timestamp FROM blocks ORDER BY number DESC').all() as IndexedBlock[];
+  }
+
+  /**
+   * Store one synced range atomically: its events, the blocks they came from and the new cursor
+   * @param toBlock Last block of the range, recorded as the sync cursor
+   * @param blocks Blocks containing events plus the range's last block
+   * @param events Decoded events in chain order
+   */
+  applyBatch(toBlock: number, blocks: IndexedBlock[], events: IndexedEvent[]) {
+    this.db.transaction(() => {
+      const insertBlock = this.db.prepare(
+        'INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)'
+      );
+      for (const block of blocks) {
+        insertBlock.run(block.number, block.hash, block.timestamp);
+      }
+
+      for (const event of events) {
+        const mapping = EVENT_TABLES[event.name];
+        if (!mapping) continue;
+        const columns = [...mapping.columns, 'block_number', 'log_index', 'tx_hash'];
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO ${mapping.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+          )
+          .run(...mapping.values(event.args), event.blockNumber, event.logIndex, event.txHash);
+      }
+
+      this.setLastBlock(toBlock);
+    })();
+  }
+
+  /**
+   * Drop everything indexed after a block, e.g. once a reorg has replaced those blocks
+   * @param blockNumber The last block to keep
+   */
+  rollbackTo(blockNumber: number) {
+    this.db.transaction(() => {
+      for (const { table } of Object.values(EVENT_TABLES)) {
+        this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber);
+      }
+      this.db.prepare('DELETE FROM blocks WHERE number > ?').run(blockNumber);
+      this.setLastBlock(blockNumber);
+    })();
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private setLastBlock(blockNumber: number) {
+    this.db
+      .prepare(
+        'INSERT INTO sync_state (id, last_block) VALUES (1, ?) ON CONFLICT (id) DO UPDATE SET last_block = excluded.last_block'
+      )
+      .run(blockNumber);
+  }
+}
@@ -0,0 +1,54 @@
+// Amounts are in the project's funding token units; fundingToken is the zero address for ETH.
+// Donation totals are net of refunds donors have claimed back.
+
+export interface IndexedProject {
+  projectId: number
+  creator: string
+  totalAmount: bigint
+  fundingToken: string
+  totalDonated: bigint
+  donationCount: number
+  totalRefunded: bigint
+  totalPaidOut: bigint
+  isComplete: boolean
+  isCancelled: boolean
+  impactTokenId: bigint | null
+  createdAt: number
+  createdBlock: number
+}
+
+export interface DonationRecord {
+  projectId: number
+  donor: string
+  amount: bigint
+  fundingToken: string
+  blockNumber: number
+  timestamp: number
+  txHash: string
+}
+
+export interface PayoutRecord {
+  projectId: number
+  milestoneIndex: number
+  recipient: string
+  amount: bigint
+  fundingToken: string
+  // Null when the payout was recorded without a prior MilestoneVerified in range
+  verifiedAt: number | null
+  paidAt: number
+  blockNumber: number
+  txHash: string
+}
+
+export interface DonorRanking {
+  rank: number
+  donor: string
+  totalDonated: bigint
+  donationCount: number
+  projectCount: number
+}
+
+export interface SyncStatus {
+  lastIndexedBlock: number
+  lastIndexedBlockHash: string | null
+}
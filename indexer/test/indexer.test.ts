@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { type JsonRpcProvider, type Result, getAddress } from 'ethers';
+import type { IndexerConfig } from '../src/config';
+import { ImpactChainIndexer } from '../src/indexer';
+import { IndexerQueries } from '../src/queries';
+import { type IndexedEvent, IndexerStore } from '../src/store';
+
+const CREATOR = getAddress('0x' + '11'.repeat(20));
+const DONOR = getAddress('0x' + '22'.repeat(20));
+
+const config: IndexerConfig = {
+  rpcUrl: '',
+  projectEscrowAddress: getAddress('0x' + '33'.repeat(20)),
+  startBlock: 1,
+  confirmations: 0,
+  batchSize: 100,
+  pollIntervalMs: 0,
+  dbPath: ':memory:',
+  port: 0,
+};
+
+const event = (name: string, blockNumber: number, args: Record<string, unknown>): IndexedEvent => ({
+  name,
+  args: args as unknown as Result,
+  blockNumber,
+  logIndex: 0,
+  txHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+});
+
+const block = (number: number, fork = 'a') => ({ number, hash: `${fork}${number}`, timestamp: 1000 + number });
+
+// A chain with no escrow logs whose block hashes can be switched to another fork
+function fakeProvider(head: number, forkFrom: number) {
+  return {
+    getBlockNumber: async () => head,
+    getBlock: async (n: number) => (n > head ? null : block(n, n >= forkFrom ? 'b' : 'a')),
+    getLogs: async () => [],
+  } as unknown as JsonRpcProvider;
+}
+
+describe('Reorg handling', () => {
+  let store: IndexerStore;
+  let queries: IndexerQueries;
+
+  // Project 1 created in block 3 and funded in blocks 5 and 8, indexed through block 8
+  beforeEach(() => {
+    store = new IndexerStore(':memory:');
+    queries = new IndexerQueries(store.db);
+    store.applyBatch(8, [block(3), block(5), block(8)], [
+      event('ProjectCreated', 3, { projectId: 1n, creator: CREATOR, totalAmount: 10n }),
+      event('ProjectFunded', 5, { projectId: 1n, donor: DONOR, amount: 2n }),
+      event('ProjectFunded', 8, { projectId: 1n, donor: DONOR, amount: 3n }),
+    ]);
+  });
+
+  it('rollbackTo drops events and blocks after the kept block', () => {
+    store.rollbackTo(5);
+
+    assert.equal(store.getLastBlock(), 5);
+    assert.deepEqual(store.getBlocksDescending().map((b) => b.number), [5, 3]);
+    assert.equal(queries.getProject(1)?.totalDonated, 2n);
+    assert.equal(queries.getProjectDonations(1).length, 1);
+  });
+
+  it('leaves the index alone while the last block is canonical', async () => {
+    await new ImpactChainIndexer(fakeProvider(8, 100), store, config).sync();
+
+    assert.equal(store.getLastBlock(), 8);
+    assert.equal(queries.getProject(1)?.totalDonated, 5n);
+  });
+
+  it('rolls back to the newest block that is still canonical', async () => {
+    // Blocks from 6 on were replaced, so the donation in block 8 is gone
+    const last = await new ImpactChainIndexer(fakeProvider(9, 6), store, config).sync();
+
+    assert.equal(last, 9);
+    assert.equal(store.getBlockHash(5), 'a5');
+    assert.equal(store.getBlockHash(8), null);
+    assert.equal(store.getBlockHash(9), 'b9');
+    assert.equal(queries.getProject(1)?.totalDonated, 2n);
+  });
+
+  it('rolls back to before the start block when no recorded block survived', async () => {
+    await new ImpactChainIndexer(fakeProvider(9, 1), store, config).sync();
+
+    assert.equal(queries.getProject(1), null);
+    assert.equal(queries.getProjectDonations(1).length, 0);
+    assert.deepEqual(store.getBlocksDescending().map((b) => b.number), [9]);
+  });
+});
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { type Result, ZeroAddress, getAddress } from 'ethers';
+import { IndexerQueries } from '../src/queries';
+import { type IndexedEvent, IndexerStore } from '../src/store';
+
+const CREATOR = getAddress('0x' + '11'.repeat(20));
+const TOKEN = getAddress('0x' + '44'.repeat(20));
+const [ALICE, BOB, CAROL] = ['aa', 'bb', 'cc'].map((b) => getAddress('0x' + b.repeat(20)));
+
+// Larger than SQLite's 64-bit integers, and lexically smaller than smaller amounts
+const HUGE = 2n ** 200n;
+
+describe('Donor leaderboard', () => {
+  let store: IndexerStore;
+  let queries: IndexerQueries;
+  let logIndex: number;
+
+  const event = (name: string, args: Record<string, unknown>): IndexedEvent => ({
+    name,
+    args: args as unknown as Result,
+    blockNumber: 1,
+    logIndex: logIndex++,
+    txHash: `0x${logIndex.toString(16).padStart(64, '0')}`,
+  });
+
+  const donate = (projectId: bigint, donor: string, amount: bigint) =>
+    event('ProjectFunded', { projectId, donor, amount });
+
+  const index = (...events: IndexedEvent[]) =>
+    store.applyBatch(1, [{ number: 1, hash: 'a1', timestamp: 1000 }], events);
+
+  // Project 1 is funded in ETH, project 2 in an ERC-20
+  beforeEach(() => {
+    store = new IndexerStore(':memory:');
+    queries = new IndexerQueries(store.db);
+    logIndex = 0;
+    index(
+      event('ProjectCreated', { projectId: 1n, creator: CREATOR, totalAmount: HUGE }),
+      event('ProjectCreated', { projectId: 2n, creator: CREATOR, totalAmount: HUGE }),
+      event('FundingTokenSet', { projectId: 2n, token: TOKEN })
+    );
+  });
+
+  it('ranks uint256 totals numerically, not as text', () => {
+    index(donate(1n, ALICE, 9n), donate(1n, BOB, HUGE), donate(1n, BOB, HUGE), donate(1n, CAROL, 10n));
+
+    const ranking = queries.getDonorLeaderboard();
+    assert.deepEqual(
+      ranking.map((r) => [r.rank, r.donor, r.totalDonated]),
+      [
+        [1, BOB, 2n * HUGE],
+        [2, CAROL, 10n],
+        [3, ALICE, 9n],
+      ]
+    );
+    assert.equal(ranking[0].donationCount, 2);
+  });
+
+  it('ranks each funding token separately', () => {
+    index(donate(1n, ALICE, 5n), donate(2n, BOB, 7n), donate(2n, ALICE, 1n));
+
+    assert.deepEqual(queries.getDonorLeaderboard(ZeroAddress).map((r) => r.donor), [ALICE]);
+    assert.deepEqual(queries.getDonorLeaderboard(TOKEN.toLowerCase()).map((r) => r.donor), [BOB, ALICE]);
+  });
+
+  it('nets out refunds and leaves out donors refunded in full', () => {
+    index(
+      donate(1n, ALICE, 5n),
+      donate(1n, BOB, 4n),
+      donate(1n, CAROL, 3n),
+      event('ProjectCancelled', { projectId: 1n, cancelledBy: CREATOR }),
+      event('RefundClaimed', { projectId: 1n, donor: ALICE, amount: 5n }),
+      event('RefundClaimed', { projectId: 1n, donor: BOB, amount: 2n })
+    );
+
+    assert.deepEqual(
+      queries.getDonorLeaderboard().map((r) => [r.donor, r.totalDonated]),
+      [
+        [CAROL, 3n],
+        [BOB, 2n],
+      ]
+    );
+    assert.equal(queries.getProject(1)?.totalDonated, 5n);
+    assert.equal(queries.getProject(1)?.totalRefunded, 7n);
+  });
+
+  it('returns at most limit donors', () => {
+    index(donate(1n, ALICE, 1n), donate(1n, BOB, 2n), donate(1n, CAROL, 3n));
+
+    assert.deepEqual(queries.getDonorLeaderboard(ZeroAddress, 2).map((r) => r.rank), [1, 2]);
+  });
+});
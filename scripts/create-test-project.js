@@ -1,17 +1,36 @@
 // scripts/create-test-project.js
+const fs = require("fs");
+const path = require("path");
 const hre = require("hardhat");
 
+// The manifest scripts/deploy.js writes
+const DEPLOYMENTS_FILE = process.env.DEPLOYMENTS_FILE || path.join(__dirname, "..", "frontend", "public", "deployments.json");
+
+// ProjectEscrow address deployed on the current network
+async function getProjectEscrowAddress() {
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const manifest = JSON.parse(fs.readFileSync(DEPLOYMENTS_FILE, "utf8"));
+  const deployment = manifest.deployments[chainId];
+  if (!deployment) {
+    throw new Error(`No deployment for chain ${chainId} in ${DEPLOYMENTS_FILE}; run scripts/deploy.js first`);
+  }
+  return deployment.contracts.ProjectEscrow.address;
+}
+
 async function main() {
   const [deployer] = await hre.ethers.getSigners();
   console.log("Creating project with account:", deployer.address);
 
   const ProjectEscrow = await hre.ethers.getContractFactory("ProjectEscrow");
-  const projectEscrow = await ProjectEscrow.attach("0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512"); // Use address from .env.local
+  /** @type {import("../typechain-types").ProjectEscrow} */
+  const projectEscrow = ProjectEscrow.attach(await getProjectEscrowAddress());
 
   // Create a test project
   const projectName = "Clean Water Initiative";
   const description = "Providing clean water access to rural communities";
   const totalAmount = hre.ethers.parseEther("1.0"); // 1 ETH
+  const latestBlock = await hre.ethers.provider.getBlock("latest");
+  const fundingDeadline = latestBlock.timestamp + 30 * 24 * 60 * 60; // 30 days
 
   // Define milestones
   const milestoneDescriptions = [
@@ -24,19 +43,42 @@ async function main() {
     hre.ethers.parseEther("0.5")
   ];
 
+  // Outcomes the NGO reports against when the project completes
+  const impactMetrics = [
+    { name: "Wells built", unit: "wells", target: 2 },
+    { name: "People with clean water access", unit: "people", target: 500 }
+  ];
+
   console.log("Creating test project with following details:");
   console.log("Project Name:", projectName);
   console.log("Description:", description);
   console.log("Total Amount:", hre.ethers.formatEther(totalAmount), "ETH");
   console.log("Number of Milestones:", milestoneDescriptions.length);
+  console.log("Funding Deadline:", new Date(fundingDeadline * 1000).toISOString());
 
   try {
+    // Projects can only pay out to verified NGOs, so register the deployer first
+    /** @type {import("../typechain-types").NGORegistry} */
+    const ngoRegistry = await hre.ethers.getContractAt("NGORegistry", await projectEscrow.ngoRegistry());
+    const registrationNumberHash = hre.ethers.id("TEST-NGO-001");
+    if (!(await ngoRegistry.isActive(deployer.address))) {
+      if ((await ngoRegistry.registrationNumberOwner(registrationNumberHash)) === hre.ethers.ZeroAddress) {
+        console.log("Registering deployer as a test NGO...");
+        await (await ngoRegistry.registerNGO("Test NGO", registrationNumberHash, "")).wait();
+      }
+      console.log("Verifying test NGO...");
+      await (await ngoRegistry.setNGOStatus(deployer.address, 2)).wait(); // NGOStatus.Verified
+    }
+
     const tx = await projectEscrow.createProject(
       deployer.address,  // _ngo parameter
       milestoneAmounts,  // _milestoneAmounts array
       milestoneDescriptions,  // _milestoneDescriptions array
       projectName,  // _projectName
-      description   // _description
+      description,  // _description
+      fundingDeadline,  // _fundingDeadline
+      hre.ethers.ZeroAddress,  // _fundingToken (native ETH)
+      impactMetrics  // _impactMetrics
     );
 
     console.log("Transaction sent! Hash:", tx.hash);
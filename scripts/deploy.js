@@ -1,5 +1,13 @@
+const fs = require("fs");
+const path = require("path");
 const hre = require("hardhat");
 
+// Per-chain deployments the frontend loads at runtime. Bump the version when the shape changes.
+const DEPLOYMENTS_VERSION = 1;
+const DEPLOYMENTS_FILE = process.env.DEPLOYMENTS_FILE || path.join(__dirname, "..", "frontend", "public", "deployments.json");
+
+// Contract types come from typechain-types/, generated by `npx hardhat compile`
+
 async function main() {
   console.log("🚀 Starting ImpactChain deployment...");
   
@@ -10,13 +18,30 @@ async function main() {
 
   // Step 1: Deploy ImpactToken contract first
   console.log("\n📄 Deploying ImpactToken contract...");
+  /** @type {import("../typechain-types").ImpactToken} */
   const impactToken = await hre.ethers.deployContract("ImpactToken");
   await impactToken.waitForDeployment();
   console.log("✅ ImpactToken deployed to:", impactToken.target);
 
-  // Step 2: Deploy ProjectEscrow contract with ImpactToken address
+  // Step 1b: Deploy the NGO registry that gates project creation
+  console.log("\n🏛️  Deploying NGORegistry contract...");
+  /** @type {import("../typechain-types").NGORegistry} */
+  const ngoRegistry = await hre.ethers.deployContract("NGORegistry");
+  await ngoRegistry.waitForDeployment();
+  console.log("✅ NGORegistry deployed to:", ngoRegistry.target);
+
+  // Step 1c: Deploy the soulbound certificates minted to donors
+  console.log("\n🧾 Deploying DonationCertificate contract...");
+  /** @type {import("../typechain-types").DonationCertificate} */
+  const donationCertificate = await hre.ethers.deployContract("DonationCertificate");
+  await donationCertificate.waitForDeployment();
+  console.log("✅ DonationCertificate deployed to:", donationCertificate.target);
+
+  // Step 2: Deploy ProjectEscrow contract with its companion contract addresses
   console.log("\n🏦 Deploying ProjectEscrow contract...");
-  const projectEscrow = await hre.ethers.deployContract("ProjectEscrow", [impactToken.target]);
+  const escrowArgs = [impactToken.target, ngoRegistry.target, donationCertificate.target];
+  /** @type {import("../typechain-types").ProjectEscrow} */
+  const projectEscrow = await hre.ethers.deployContract("ProjectEscrow", escrowArgs);
   await projectEscrow.waitForDeployment();
   console.log("✅ ProjectEscrow deployed to:", projectEscrow.target);
 
@@ -26,6 +51,35 @@ async function main() {
   await transferTx.wait();
   console.log("✅ Ownership transferred successfully");
 
+  console.log("\n📝 Transferring DonationCertificate ownership to ProjectEscrow...");
+  const certificateTransferTx = await donationCertificate.transferOwnership(projectEscrow.target);
+  await certificateTransferTx.wait();
+  console.log("✅ Ownership transferred successfully");
+
+  // Step 3b: Open a window for donors to dispute verified milestones before payout
+  const challengePeriod = Number(process.env.CHALLENGE_PERIOD_SECONDS || 3 * 24 * 60 * 60);
+  console.log("\n⏱️  Setting milestone challenge period to", challengePeriod, "seconds...");
+  const challengeTx = await projectEscrow.setChallengePeriod(challengePeriod);
+  await challengeTx.wait();
+  console.log("✅ Challenge period set");
+
+  // Step 3c: Hand out roles to separate accounts (the deployer keeps every role as admin)
+  const roleGrants = [
+    [projectEscrow, "VERIFIER_ROLE", process.env.VERIFIER_ADDRESSES],
+    [projectEscrow, "TREASURER_ROLE", process.env.TREASURER_ADDRESSES],
+    [projectEscrow, "PAUSER_ROLE", process.env.PAUSER_ADDRESSES],
+    [ngoRegistry, "NGO_REGISTRAR_ROLE", process.env.NGO_REGISTRAR_ADDRESSES]
+  ];
+  for (const [contract, roleName, addresses] of roleGrants) {
+    if (!addresses) continue;
+    const role = await contract[roleName]();
+    for (const account of addresses.split(",").map((a) => a.trim()).filter(Boolean)) {
+      console.log(`\n🔑 Granting ${roleName} to`, account);
+      const grantTx = await contract.grantRole(role, account);
+      await grantTx.wait();
+    }
+  }
+
   // Step 4: Verify the connections
   console.log("\n🔗 Verifying contract connections...");
   const connectedImpactToken = await projectEscrow.impactToken();
@@ -42,18 +96,30 @@ async function main() {
   }
 
   // Step 4: Save deployment info
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const startBlock = (await impactToken.deploymentTransaction().wait()).blockNumber;
   const deploymentInfo = {
     network: hre.network.name,
-    chainId: hre.network.config.chainId,
+    chainId,
     deployer: deployer.address,
+    // First block to read events from
+    startBlock,
     contracts: {
       ImpactToken: {
         address: impactToken.target,
         constructorArgs: []
       },
+      NGORegistry: {
+        address: ngoRegistry.target,
+        constructorArgs: []
+      },
+      DonationCertificate: {
+        address: donationCertificate.target,
+        constructorArgs: []
+      },
       ProjectEscrow: {
         address: projectEscrow.target,
-        constructorArgs: [impactToken.target]
+        constructorArgs: escrowArgs
       }
     },
     timestamp: new Date().toISOString()
@@ -64,12 +130,22 @@ async function main() {
   console.log("Chain ID:", deploymentInfo.chainId);
   console.log("Deployer:", deploymentInfo.deployer);
   console.log("ImpactToken:", deploymentInfo.contracts.ImpactToken.address);
+  console.log("NGORegistry:", deploymentInfo.contracts.NGORegistry.address);
+  console.log("DonationCertificate:", deploymentInfo.contracts.DonationCertificate.address);
   console.log("ProjectEscrow:", deploymentInfo.contracts.ProjectEscrow.address);
 
+  // The in-process hardhat network disappears with this script, so don't record it
+  if (hre.network.name !== "hardhat") {
+    writeDeployment(deploymentInfo);
+    console.log("\n💾 Deployment saved to", DEPLOYMENTS_FILE);
+  }
+
   // Step 5: Optional verification (if on a public network)
   if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
     console.log("\n⏳ Waiting for block confirmations...");
     await impactToken.deploymentTransaction().wait(6);
+    await ngoRegistry.deploymentTransaction().wait(6);
+    await donationCertificate.deploymentTransaction().wait(6);
     await projectEscrow.deploymentTransaction().wait(6);
 
     console.log("\n🔍 Verifying contracts on block explorer...");
@@ -83,10 +159,30 @@ async function main() {
       console.log("❌ ImpactToken verification failed:", error.message);
     }
 
+    try {
+      await hre.run("verify:verify", {
+        address: ngoRegistry.target,
+        constructorArguments: [],
+      });
+      console.log("✅ NGORegistry verified");
+    } catch (error) {
+      console.log("❌ NGORegistry verification failed:", error.message);
+    }
+
+    try {
+      await hre.run("verify:verify", {
+        address: donationCertificate.target,
+        constructorArguments: [],
+      });
+      console.log("✅ DonationCertificate verified");
+    } catch (error) {
+      console.log("❌ DonationCertificate verification failed:", error.message);
+    }
+
     try {
       await hre.run("verify:verify", {
         address: projectEscrow.target,
-        constructorArguments: [impactToken.target],
+        constructorArguments: escrowArgs,
       });
       console.log("✅ ProjectEscrow verified");
     } catch (error) {
@@ -96,11 +192,27 @@ async function main() {
 
   console.log("\n🎉 Deployment completed successfully!");
   console.log("\n📝 Next steps:");
-  console.log("1. Update your frontend with the new contract addresses");
+  console.log("1. Serve the updated deployments.json with the frontend");
   console.log("2. Test the contracts with sample transactions");
   console.log("3. Set up monitoring and alerts");
 }
 
+// Add or replace this chain's entry in the deployments manifest
+function writeDeployment(deploymentInfo) {
+  let manifest = { version: DEPLOYMENTS_VERSION, deployments: {} };
+  if (fs.existsSync(DEPLOYMENTS_FILE)) {
+    const existing = JSON.parse(fs.readFileSync(DEPLOYMENTS_FILE, "utf8"));
+    if (existing.version !== DEPLOYMENTS_VERSION) {
+      throw new Error(`${DEPLOYMENTS_FILE} is version ${existing.version}, expected ${DEPLOYMENTS_VERSION}`);
+    }
+    manifest = existing;
+  }
+  manifest.deployments[deploymentInfo.chainId] = deploymentInfo;
+
+  fs.mkdirSync(path.dirname(DEPLOYMENTS_FILE), { recursive: true });
+  fs.writeFileSync(DEPLOYMENTS_FILE, JSON.stringify(manifest, null, 2) + "\n");
+}
+
 // This pattern is recommended to handle errors properly
 main().catch((error) => {
   console.error("❌ Deployment failed:", error);
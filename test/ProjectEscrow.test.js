@@ -1,22 +1,51 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+
+const THIRTY_DAYS = 30 * 24 * 60 * 60;
+const NGO_PENDING = 1;
+const NGO_VERIFIED = 2;
+const NGO_SUSPENDED = 3;
+const IMPACT_METRICS = [{ name: "Households served", unit: "households", target: 100 }];
 
 describe("ImpactChain System", function () {
-  let impactToken, projectEscrow;
-  let owner, ngo, donor;
+  let impactToken, ngoRegistry, donationCertificate, projectEscrow;
+  let owner, ngo, donor, donor2;
+  let fundingDeadline;
 
   beforeEach(async function () {
-    [owner, ngo, donor] = await ethers.getSigners();
+    [owner, ngo, donor, donor2] = await ethers.getSigners();
     
     // Deploy ImpactToken first
     const ImpactTokenFactory = await ethers.getContractFactory("ImpactToken");
     impactToken = await ImpactTokenFactory.deploy();
     await impactToken.waitForDeployment();
     
-    // Deploy ProjectEscrow with ImpactToken address
+    // Deploy the NGO registry and verify the test NGO
+    const NGORegistryFactory = await ethers.getContractFactory("NGORegistry");
+    ngoRegistry = await NGORegistryFactory.deploy();
+    await ngoRegistry.waitForDeployment();
+    await ngoRegistry.connect(ngo).registerNGO("Clean Water Trust", ethers.id("REG-001"), "ipfs://ngo");
+    await ngoRegistry.setNGOStatus(ngo.address, NGO_VERIFIED);
+
+    const DonationCertificateFactory = await ethers.getContractFactory("DonationCertificate");
+    donationCertificate = await DonationCertificateFactory.deploy();
+    await donationCertificate.waitForDeployment();
+
+    // Deploy ProjectEscrow with its companion contract addresses
     const ProjectEscrowFactory = await ethers.getContractFactory("ProjectEscrow");
-    projectEscrow = await ProjectEscrowFactory.deploy(impactToken.target);
+    projectEscrow = await ProjectEscrowFactory.deploy(
+      impactToken.target,
+      ngoRegistry.target,
+      donationCertificate.target
+    );
     await projectEscrow.waitForDeployment();
+
+    // ProjectEscrow mints ImpactTokens and certificates, so it must own both token contracts
+    await impactToken.transferOwnership(projectEscrow.target);
+    await donationCertificate.transferOwnership(projectEscrow.target);
+
+    fundingDeadline = (await time.latest()) + THIRTY_DAYS;
   });
 
   describe("Deployment", function () {
@@ -31,6 +60,103 @@ describe("ImpactChain System", function () {
     });
   });
 
+  describe("Access Control", function () {
+    it("Should grant every role to the deployer", async function () {
+      for (const role of [
+        await projectEscrow.DEFAULT_ADMIN_ROLE(),
+        await projectEscrow.VERIFIER_ROLE(),
+        await projectEscrow.TREASURER_ROLE(),
+        await projectEscrow.PAUSER_ROLE(),
+      ]) {
+        expect(await projectEscrow.hasRole(role, owner.address)).to.be.true;
+      }
+      expect(await projectEscrow.globalVerifierCount()).to.equal(1);
+    });
+
+    it("Should track global verifiers through VERIFIER_ROLE", async function () {
+      const verifierRole = await projectEscrow.VERIFIER_ROLE();
+
+      await expect(projectEscrow.grantRole(verifierRole, donor2.address))
+        .to.emit(projectEscrow, "RoleGranted")
+        .withArgs(verifierRole, donor2.address, owner.address)
+        .and.to.emit(projectEscrow, "VerifierUpdated")
+        .withArgs(0, donor2.address, true);
+      expect(await projectEscrow.globalVerifierCount()).to.equal(2);
+      expect(await projectEscrow.isVerifier(1, donor2.address)).to.be.true;
+
+      await expect(projectEscrow.revokeRole(verifierRole, donor2.address))
+        .to.emit(projectEscrow, "RoleRevoked")
+        .withArgs(verifierRole, donor2.address, owner.address);
+      expect(await projectEscrow.globalVerifierCount()).to.equal(1);
+    });
+
+    it("Should only let treasurers pay milestones", async function () {
+      await projectEscrow.connect(ngo).createProject(
+        ngo.address, [ethers.parseEther("1")], ["Build well"],
+        "Clean Water", "Description", fundingDeadline, ethers.ZeroAddress, IMPACT_METRICS
+      );
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") });
+      await projectEscrow.verifyMilestone(1, 0);
+
+      await expect(
+        projectEscrow.connect(donor2).payMilestone(1, 0)
+      ).to.be.revertedWithCustomError(projectEscrow, "AccessControlUnauthorizedAccount");
+
+      await projectEscrow.grantRole(await projectEscrow.TREASURER_ROLE(), donor2.address);
+      await expect(projectEscrow.connect(donor2).payMilestone(1, 0))
+        .to.emit(projectEscrow, "MilestonePaid");
+    });
+  });
+
+  describe("NGO Registry", function () {
+    it("Should register an NGO as pending", async function () {
+      const regHash = ethers.id("REG-002");
+      await expect(ngoRegistry.connect(donor2).registerNGO("Schools First", regHash, "ipfs://schools"))
+        .to.emit(ngoRegistry, "NGORegistered")
+        .withArgs(donor2.address, "Schools First", regHash, "ipfs://schools");
+
+      const profile = await ngoRegistry.getNGO(donor2.address);
+      expect(profile.name).to.equal("Schools First");
+      expect(profile.status).to.equal(NGO_PENDING);
+      expect(await ngoRegistry.isActive(donor2.address)).to.be.false;
+      expect(await ngoRegistry.getNGOAddresses(0, 10)).to.deep.equal([ngo.address, donor2.address]);
+    });
+
+    it("Should not allow a registration number to be reused", async function () {
+      await expect(
+        ngoRegistry.connect(donor2).registerNGO("Copycat", ethers.id("REG-001"), "")
+      ).to.be.revertedWith("Registration number already registered");
+    });
+
+    it("Should only let registrars change NGO status", async function () {
+      await expect(
+        ngoRegistry.connect(donor).setNGOStatus(ngo.address, NGO_SUSPENDED)
+      ).to.be.revertedWithCustomError(ngoRegistry, "AccessControlUnauthorizedAccount");
+
+      await expect(ngoRegistry.setNGOStatus(ngo.address, NGO_SUSPENDED))
+        .to.emit(ngoRegistry, "NGOStatusChanged")
+        .withArgs(ngo.address, NGO_SUSPENDED, owner.address);
+      expect(await ngoRegistry.isActive(ngo.address)).to.be.false;
+    });
+
+    it("Should only create projects for verified NGOs", async function () {
+      await expect(
+        projectEscrow.createProject(
+          donor2.address, [ethers.parseEther("1")], ["Build well"],
+          "Clean Water", "Description", fundingDeadline, ethers.ZeroAddress, IMPACT_METRICS
+        )
+      ).to.be.revertedWith("NGO is not registered and active");
+
+      await ngoRegistry.setNGOStatus(ngo.address, NGO_SUSPENDED);
+      await expect(
+        projectEscrow.createProject(
+          ngo.address, [ethers.parseEther("1")], ["Build well"],
+          "Clean Water", "Description", fundingDeadline, ethers.ZeroAddress, IMPACT_METRICS
+        )
+      ).to.be.revertedWith("NGO is not registered and active");
+    });
+  });
+
   describe("Project Creation", function () {
     it("Should allow an NGO to create a new project", async function () {
       // 1. Arrange: Set up the test data
@@ -46,7 +172,10 @@ describe("ImpactChain System", function () {
         milestoneAmounts,
         milestoneDescriptions,
         projectName,
-        description
+        description,
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
       );
 
       // 3. Assert: Check if the outcome is correct
@@ -72,7 +201,10 @@ describe("ImpactChain System", function () {
           milestoneAmounts,
           milestoneDescriptions,
           "Test Project",
-          "Description"
+          "Description",
+          fundingDeadline,
+          ethers.ZeroAddress,
+          IMPACT_METRICS
         )
       ).to.be.revertedWith("Input arrays must have the same length");
     });
@@ -89,7 +221,10 @@ describe("ImpactChain System", function () {
         milestoneAmounts,
         milestoneDescriptions,
         "Test Project",
-        "Description"
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
       );
     });
 
@@ -113,6 +248,327 @@ describe("ImpactChain System", function () {
         projectEscrow.connect(donor).donate(1, { value: excessiveAmount })
       ).to.be.revertedWith("Donation exceeds the required amount");
     });
+
+    it("Should track each donor's contribution separately", async function () {
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") });
+      await projectEscrow.connect(donor2).donate(1, { value: ethers.parseEther("1.5") });
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("0.5") });
+
+      expect(await projectEscrow.getContribution(1, donor.address)).to.equal(ethers.parseEther("1.5"));
+      expect(await projectEscrow.getContribution(1, donor2.address)).to.equal(ethers.parseEther("1.5"));
+      expect(await projectEscrow.getDonors(1)).to.deep.equal([donor.address, donor2.address]);
+    });
+
+    it("Should page through the funding history", async function () {
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") });
+      await projectEscrow.connect(donor2).donate(1, { value: ethers.parseEther("1.5") });
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("0.5") });
+
+      expect(await projectEscrow.getDonationCount(1)).to.equal(3);
+
+      const page = await projectEscrow.getDonations(1, 1, 5);
+      expect(page.length).to.equal(2);
+      expect(page[0].donor).to.equal(donor2.address);
+      expect(page[0].amount).to.equal(ethers.parseEther("1.5"));
+      expect(page[1].donor).to.equal(donor.address);
+      expect(page[1].amount).to.equal(ethers.parseEther("0.5"));
+
+      expect((await projectEscrow.getDonations(1, 3, 5)).length).to.equal(0);
+    });
+  });
+
+  describe("Circuit Breakers", function () {
+    beforeEach(async function () {
+      await projectEscrow.createProject(
+        ngo.address,
+        [ethers.parseEther("1"), ethers.parseEther("2")],
+        ["First milestone", "Second milestone"],
+        "Test Project",
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
+      );
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") });
+      await projectEscrow.verifyMilestone(1, 0);
+    });
+
+    it("Should block donations, payouts and completion while paused", async function () {
+      await expect(projectEscrow.pause("Oracle incident"))
+        .to.emit(projectEscrow, "EscrowPaused")
+        .withArgs(owner.address, "Oracle incident");
+      expect(await projectEscrow.paused()).to.be.true;
+      expect(await projectEscrow.pauseReason()).to.equal("Oracle incident");
+
+      await expect(
+        projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(projectEscrow, "EnforcedPause");
+      await expect(projectEscrow.payMilestone(1, 0))
+        .to.be.revertedWithCustomError(projectEscrow, "EnforcedPause");
+      await expect(projectEscrow.completeProject(1, "ipfs://impact"))
+        .to.be.revertedWithCustomError(projectEscrow, "EnforcedPause");
+
+      await expect(projectEscrow.unpause())
+        .to.emit(projectEscrow, "EscrowUnpaused")
+        .withArgs(owner.address);
+      await expect(projectEscrow.payMilestone(1, 0)).to.emit(projectEscrow, "MilestonePaid");
+    });
+
+    it("Should only let pausers pause", async function () {
+      await expect(
+        projectEscrow.connect(donor).pause("Nope")
+      ).to.be.revertedWithCustomError(projectEscrow, "AccessControlUnauthorizedAccount");
+      await expect(
+        projectEscrow.connect(donor).freezeProject(1, "Nope")
+      ).to.be.revertedWithCustomError(projectEscrow, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should block a frozen project until it is unfrozen", async function () {
+      await expect(projectEscrow.freezeProject(1, "Suspected fraud"))
+        .to.emit(projectEscrow, "ProjectFrozen")
+        .withArgs(1, owner.address, "Suspected fraud");
+      expect(await projectEscrow.freezeReason(1)).to.equal("Suspected fraud");
+
+      await expect(
+        projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") })
+      ).to.be.revertedWith("Project is frozen");
+      await expect(projectEscrow.payMilestone(1, 0)).to.be.revertedWith("Project is frozen");
+      await expect(
+        projectEscrow.completeProject(1, "ipfs://impact")
+      ).to.be.revertedWith("Project is frozen");
+
+      await expect(projectEscrow.unfreezeProject(1))
+        .to.emit(projectEscrow, "ProjectUnfrozen")
+        .withArgs(1, owner.address);
+      await expect(projectEscrow.payMilestone(1, 0)).to.emit(projectEscrow, "MilestonePaid");
+    });
+
+    it("Should wind down a frozen project through refunds", async function () {
+      await projectEscrow.freezeProject(1, "Suspected fraud");
+      await projectEscrow.cancelProject(1);
+
+      await expect(
+        projectEscrow.connect(donor).claimRefund(1)
+      ).to.changeEtherBalance(donor, ethers.parseEther("1"));
+    });
+
+    it("Should keep refunds open while paused", async function () {
+      await projectEscrow.cancelProject(1);
+      await projectEscrow.pause("Incident response");
+
+      await expect(
+        projectEscrow.connect(donor).claimRefund(1)
+      ).to.changeEtherBalance(donor, ethers.parseEther("1"));
+    });
+  });
+
+  describe("Donation Certificates", function () {
+    beforeEach(async function () {
+      await projectEscrow.createProject(
+        ngo.address,
+        [ethers.parseEther("3")],
+        ["Build well"],
+        "Test Project",
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
+      );
+    });
+
+    it("Should mint a certificate for every donation", async function () {
+      await expect(projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") }))
+        .to.emit(donationCertificate, "CertificateMinted")
+        .withArgs(1, 1, donor.address, ethers.parseEther("1"));
+      const donatedAt = await time.latest();
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("0.5") });
+
+      expect(await donationCertificate.getCertificatesByDonor(donor.address)).to.deep.equal([1n, 2n]);
+      const certificate = await donationCertificate.getCertificate(1);
+      expect(certificate.projectId).to.equal(1);
+      expect(certificate.donor).to.equal(donor.address);
+      expect(certificate.fundingToken).to.equal(ethers.ZeroAddress);
+      expect(certificate.amount).to.equal(ethers.parseEther("1"));
+      expect(certificate.timestamp).to.equal(donatedAt);
+    });
+
+    it("Should not allow certificates to be transferred", async function () {
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") });
+
+      await expect(
+        donationCertificate.connect(donor).transferFrom(donor.address, donor2.address, 1)
+      ).to.be.revertedWith("Certificates are non-transferable");
+    });
+
+    it("Should only let the escrow mint certificates", async function () {
+      await expect(
+        donationCertificate.mintCertificate(donor.address, 1, ethers.ZeroAddress, 1)
+      ).to.be.revertedWithCustomError(donationCertificate, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should describe the donation in its token metadata", async function () {
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") });
+
+      const uri = await donationCertificate.tokenURI(1);
+      const prefix = "data:application/json;base64,";
+      expect(uri.startsWith(prefix)).to.be.true;
+      const metadata = JSON.parse(Buffer.from(uri.slice(prefix.length), "base64").toString("utf8"));
+      const traits = Object.fromEntries(metadata.attributes.map((a) => [a.trait_type, a.value]));
+      expect(traits["Project ID"]).to.equal(1);
+      expect(traits["Amount"]).to.equal(ethers.parseEther("1").toString());
+      expect(traits["Donor"]).to.equal(donor.address.toLowerCase());
+    });
+  });
+
+  describe("Refunds", function () {
+    beforeEach(async function () {
+      const milestoneAmounts = [ethers.parseEther("1"), ethers.parseEther("2")];
+      const milestoneDescriptions = ["First milestone", "Second milestone"];
+
+      await projectEscrow.createProject(
+        ngo.address,
+        milestoneAmounts,
+        milestoneDescriptions,
+        "Test Project",
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
+      );
+
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") });
+      await projectEscrow.connect(donor2).donate(1, { value: ethers.parseEther("2") });
+    });
+
+    it("Should refund each donor's pro-rata share of unpaid funds", async function () {
+      // Pay out the first milestone, leaving 2 of the 3 ETH in escrow
+      await projectEscrow.verifyMilestone(1, 0);
+      await projectEscrow.payMilestone(1, 0);
+
+      await expect(projectEscrow.cancelProject(1))
+        .to.emit(projectEscrow, "ProjectCancelled")
+        .withArgs(1, owner.address);
+
+      const donorShare = ethers.parseEther("2") / 3n;
+      const donor2Share = (ethers.parseEther("2") * 2n) / 3n;
+
+      const refundTx = projectEscrow.connect(donor).claimRefund(1);
+      await expect(refundTx)
+        .to.emit(projectEscrow, "RefundClaimed")
+        .withArgs(1, donor.address, donorShare);
+      await expect(refundTx).to.changeEtherBalance(donor, donorShare);
+
+      await expect(
+        projectEscrow.connect(donor2).claimRefund(1)
+      ).to.changeEtherBalance(donor2, donor2Share);
+    });
+
+    it("Should reject refunds while the project is live", async function () {
+      await expect(
+        projectEscrow.connect(donor).claimRefund(1)
+      ).to.be.revertedWith("Refunds are not available");
+    });
+
+    it("Should reject a second refund claim", async function () {
+      await projectEscrow.cancelProject(1);
+      await projectEscrow.connect(donor).claimRefund(1);
+
+      await expect(
+        projectEscrow.connect(donor).claimRefund(1)
+      ).to.be.revertedWith("Refund already claimed");
+      expect(await projectEscrow.getRefundableAmount(1, donor.address)).to.equal(0);
+    });
+
+    it("Should block donations and payouts once cancelled", async function () {
+      await projectEscrow.verifyMilestone(1, 0);
+      await projectEscrow.cancelProject(1);
+
+      await expect(
+        projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("0.1") })
+      ).to.be.revertedWith("Project is cancelled");
+      await expect(
+        projectEscrow.payMilestone(1, 0)
+      ).to.be.revertedWith("Project is cancelled");
+    });
+
+    it("Should allow the project creator to cancel", async function () {
+      await expect(projectEscrow.connect(ngo).cancelProject(1))
+        .to.emit(projectEscrow, "ProjectCancelled")
+        .withArgs(1, ngo.address);
+
+      const status = await projectEscrow.getProjectStatus(1);
+      expect(status.isCancelled).to.be.true;
+      expect(status.isRefundable).to.be.true;
+    });
+
+    it("Should only allow the owner or creator to cancel", async function () {
+      await expect(
+        projectEscrow.connect(donor).cancelProject(1)
+      ).to.be.revertedWith("Only admin or project creator can cancel");
+    });
+  });
+
+  describe("Funding Deadlines", function () {
+    beforeEach(async function () {
+      const milestoneAmounts = [ethers.parseEther("1"), ethers.parseEther("2")];
+      const milestoneDescriptions = ["First milestone", "Second milestone"];
+
+      await projectEscrow.createProject(
+        ngo.address,
+        milestoneAmounts,
+        milestoneDescriptions,
+        "Test Project",
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
+      );
+    });
+
+    it("Should record the funding deadline", async function () {
+      const status = await projectEscrow.getProjectStatus(1);
+      expect(status.fundingDeadline).to.equal(fundingDeadline);
+      expect(status.isRefundable).to.be.false;
+      expect(status.fundingToken).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should reject a deadline in the past", async function () {
+      await expect(
+        projectEscrow.createProject(
+          ngo.address,
+          [ethers.parseEther("1")],
+          ["Only milestone"],
+          "Late Project",
+          "Description",
+          (await time.latest()) - 1,
+          ethers.ZeroAddress,
+          IMPACT_METRICS
+        )
+      ).to.be.revertedWith("Funding deadline must be in the future");
+    });
+
+    it("Should open refunds when the goal is missed by the deadline", async function () {
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") });
+      await time.increaseTo(fundingDeadline + 1);
+
+      await expect(
+        projectEscrow.connect(donor2).donate(1, { value: ethers.parseEther("1") })
+      ).to.be.revertedWith("Funding deadline has passed");
+
+      expect((await projectEscrow.getProjectStatus(1)).isRefundable).to.be.true;
+      await expect(
+        projectEscrow.connect(donor).claimRefund(1)
+      ).to.changeEtherBalance(donor, ethers.parseEther("1"));
+    });
+
+    it("Should keep a fully funded project live after the deadline", async function () {
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("3") });
+      await time.increaseTo(fundingDeadline + 1);
+
+      expect((await projectEscrow.getProjectStatus(1)).isRefundable).to.be.false;
+      await projectEscrow.verifyMilestone(1, 0);
+      await expect(projectEscrow.payMilestone(1, 0)).to.emit(projectEscrow, "MilestonePaid");
+    });
   });
 
   describe("Milestone Management", function () {
@@ -126,7 +582,10 @@ describe("ImpactChain System", function () {
         milestoneAmounts,
         milestoneDescriptions,
         "Test Project",
-        "Description"
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
       );
       
       await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("3") });
@@ -157,6 +616,446 @@ describe("ImpactChain System", function () {
     });
   });
 
+  describe("ERC-20 Funding", function () {
+    let usdc;
+    const usdcAmount = (value) => ethers.parseUnits(value, 6);
+
+    beforeEach(async function () {
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      usdc = await MockERC20Factory.deploy("USD Coin", "USDC", 6);
+      await usdc.waitForDeployment();
+
+      await usdc.mint(donor.address, usdcAmount("1000"));
+      await usdc.mint(donor2.address, usdcAmount("1000"));
+
+      await expect(
+        projectEscrow.createProject(
+          ngo.address,
+          [usdcAmount("100"), usdcAmount("200")],
+          ["First milestone", "Second milestone"],
+          "Stablecoin Project",
+          "Description",
+          fundingDeadline,
+          usdc.target,
+          IMPACT_METRICS
+        )
+      ).to.emit(projectEscrow, "FundingTokenSet")
+        .withArgs(1, usdc.target);
+    });
+
+    it("Should accept approved token donations", async function () {
+      await usdc.connect(donor).approve(projectEscrow.target, usdcAmount("150"));
+
+      await expect(projectEscrow.connect(donor).donateToken(1, usdcAmount("150")))
+        .to.emit(projectEscrow, "ProjectFunded")
+        .withArgs(1, donor.address, usdcAmount("150"));
+
+      expect(await usdc.balanceOf(projectEscrow.target)).to.equal(usdcAmount("150"));
+      expect(await projectEscrow.getContribution(1, donor.address)).to.equal(usdcAmount("150"));
+    });
+
+    it("Should accept token donations with an EIP-2612 permit", async function () {
+      const amount = usdcAmount("300");
+      const deadline = (await time.latest()) + 3600;
+      const { chainId } = await ethers.provider.getNetwork();
+
+      const signature = await donor.signTypedData(
+        { name: "USD Coin", version: "1", chainId, verifyingContract: usdc.target },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        {
+          owner: donor.address,
+          spender: projectEscrow.target,
+          value: amount,
+          nonce: await usdc.nonces(donor.address),
+          deadline,
+        }
+      );
+      const { v, r, s } = ethers.Signature.from(signature);
+
+      await expect(
+        projectEscrow.connect(donor).donateTokenWithPermit(1, amount, deadline, v, r, s)
+      ).to.emit(projectEscrow, "ProjectFunded")
+        .withArgs(1, donor.address, amount);
+
+      expect((await projectEscrow.getProject(1)).fundsRaised).to.equal(amount);
+    });
+
+    it("Should only credit what a fee-on-transfer token delivers", async function () {
+      const MockFeeTokenFactory = await ethers.getContractFactory("MockFeeToken");
+      const feeToken = await MockFeeTokenFactory.deploy();
+      await feeToken.waitForDeployment();
+      await feeToken.mint(donor.address, ethers.parseEther("100"));
+
+      await projectEscrow.createProject(
+        ngo.address, [ethers.parseEther("100")], ["Only milestone"],
+        "Fee Token Project", "Description", fundingDeadline, feeToken.target, IMPACT_METRICS
+      );
+      await feeToken.connect(donor).approve(projectEscrow.target, ethers.parseEther("50"));
+
+      // The token burns 1% in transit, so 49.5 of the 50 sent arrive
+      const received = ethers.parseEther("49.5");
+      await expect(projectEscrow.connect(donor).donateToken(2, ethers.parseEther("50")))
+        .to.emit(projectEscrow, "ProjectFunded")
+        .withArgs(2, donor.address, received);
+
+      expect(await feeToken.balanceOf(projectEscrow.target)).to.equal(received);
+      expect(await projectEscrow.getContribution(2, donor.address)).to.equal(received);
+      expect((await projectEscrow.getProject(2)).fundsRaised).to.equal(received);
+    });
+
+    it("Should reject ETH donations to a token project", async function () {
+      await expect(
+        projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("1") })
+      ).to.be.revertedWith("Project only accepts token donations");
+    });
+
+    it("Should pay milestones and refunds in the funding token", async function () {
+      await usdc.connect(donor).approve(projectEscrow.target, usdcAmount("150"));
+      await usdc.connect(donor2).approve(projectEscrow.target, usdcAmount("150"));
+      await projectEscrow.connect(donor).donateToken(1, usdcAmount("150"));
+      await projectEscrow.connect(donor2).donateToken(1, usdcAmount("150"));
+
+      await projectEscrow.verifyMilestone(1, 0);
+      await expect(projectEscrow.payMilestone(1, 0)).to.changeTokenBalances(
+        usdc,
+        [projectEscrow, ngo],
+        [-usdcAmount("100"), usdcAmount("100")]
+      );
+
+      await projectEscrow.cancelProject(1);
+      await expect(projectEscrow.connect(donor).claimRefund(1)).to.changeTokenBalance(
+        usdc,
+        donor,
+        usdcAmount("100")
+      );
+    });
+  });
+
+  describe("Disputes", function () {
+    const CHALLENGE_PERIOD = 3 * 24 * 60 * 60;
+
+    beforeEach(async function () {
+      await projectEscrow.setChallengePeriod(CHALLENGE_PERIOD);
+      await projectEscrow.createProject(
+        ngo.address,
+        [ethers.parseEther("1"), ethers.parseEther("2")],
+        ["First milestone", "Second milestone"],
+        "Test Project",
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
+      );
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("3") });
+    });
+
+    it("Should let the NGO rework a rejected milestone", async function () {
+      await projectEscrow.rejectMilestone(1, 0, "Photos are blurry");
+
+      await expect(
+        projectEscrow.connect(ngo).submitMilestoneEvidence(1, 0, "ipfs://retake", ethers.ZeroHash)
+      ).to.emit(projectEscrow, "MilestoneReopened")
+        .withArgs(1, 0, 2);
+
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(0);
+      await projectEscrow.verifyMilestone(1, 0);
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(1);
+    });
+
+    it("Should hold payment until the challenge window closes", async function () {
+      await projectEscrow.verifyMilestone(1, 0);
+
+      await expect(
+        projectEscrow.payMilestone(1, 0)
+      ).to.be.revertedWith("Challenge window still open");
+
+      await time.increase(CHALLENGE_PERIOD);
+      await expect(projectEscrow.payMilestone(1, 0)).to.emit(projectEscrow, "MilestonePaid");
+    });
+
+    it("Should only let donors dispute within the window", async function () {
+      await projectEscrow.verifyMilestone(1, 0);
+
+      await expect(
+        projectEscrow.connect(donor2).raiseDispute(1, 0, "Not delivered")
+      ).to.be.revertedWith("Only donors can raise disputes");
+
+      await time.increase(CHALLENGE_PERIOD);
+      await expect(
+        projectEscrow.connect(donor).raiseDispute(1, 0, "Not delivered")
+      ).to.be.revertedWith("Challenge window has closed");
+    });
+
+    it("Should send an upheld dispute back for rework", async function () {
+      await projectEscrow.verifyMilestone(1, 0);
+      await expect(projectEscrow.connect(donor).raiseDispute(1, 0, "Well is dry"))
+        .to.emit(projectEscrow, "MilestoneDisputed")
+        .withArgs(1, 0, donor.address, "Well is dry");
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(4); // MilestoneState.Disputed
+
+      await expect(
+        projectEscrow.payMilestone(1, 0)
+      ).to.be.revertedWith("Milestone not verified");
+
+      await expect(projectEscrow.resolveDispute(1, 0, true, "Site visit confirmed the issue"))
+        .to.emit(projectEscrow, "DisputeResolved")
+        .withArgs(1, 0, true, "Site visit confirmed the issue");
+
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(3); // MilestoneState.Rejected
+      const { disputes } = await projectEscrow.getMilestoneDisputes(1, 0);
+      expect(disputes.length).to.equal(1);
+      expect(disputes[0].resolved).to.be.true;
+      expect(disputes[0].upheld).to.be.true;
+    });
+
+    it("Should release a dismissed dispute for immediate payment", async function () {
+      await projectEscrow.verifyMilestone(1, 0);
+      await projectEscrow.connect(donor).raiseDispute(1, 0, "Well is dry");
+      await projectEscrow.resolveDispute(1, 0, false, "Water tests passed");
+
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(1);
+      await expect(projectEscrow.payMilestone(1, 0)).to.emit(projectEscrow, "MilestonePaid");
+    });
+
+    it("Should only let an admin arbitrate", async function () {
+      await projectEscrow.verifyMilestone(1, 0);
+      await projectEscrow.connect(donor).raiseDispute(1, 0, "Well is dry");
+
+      await expect(
+        projectEscrow.connect(donor).resolveDispute(1, 0, true, "I agree with myself")
+      ).to.be.revertedWithCustomError(projectEscrow, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Verifier Quorum", function () {
+    let verifier1, verifier2;
+
+    beforeEach(async function () {
+      [, , , , verifier1, verifier2] = await ethers.getSigners();
+
+      await projectEscrow.createProject(
+        ngo.address,
+        [ethers.parseEther("1"), ethers.parseEther("2")],
+        ["First milestone", "Second milestone"],
+        "Test Project",
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
+      );
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("3") });
+    });
+
+    it("Should reject approvals from non-verifiers", async function () {
+      await expect(
+        projectEscrow.connect(donor).verifyMilestone(1, 0)
+      ).to.be.revertedWith("Caller is not a verifier");
+    });
+
+    it("Should require a 2-of-3 global quorum", async function () {
+      await projectEscrow.grantRole(await projectEscrow.VERIFIER_ROLE(), verifier1.address);
+      await projectEscrow.grantRole(await projectEscrow.VERIFIER_ROLE(), verifier2.address);
+      await expect(projectEscrow.setDefaultQuorum(2))
+        .to.emit(projectEscrow, "QuorumUpdated")
+        .withArgs(0, 2);
+
+      await expect(projectEscrow.connect(verifier1).verifyMilestone(1, 0))
+        .to.emit(projectEscrow, "MilestoneApproved")
+        .withArgs(1, 0, verifier1.address, 1, 2)
+        .and.not.to.emit(projectEscrow, "MilestoneVerified");
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(0);
+
+      await expect(projectEscrow.connect(verifier2).verifyMilestone(1, 0))
+        .to.emit(projectEscrow, "MilestoneVerified")
+        .withArgs(1, 0);
+
+      const approvals = await projectEscrow.getMilestoneApprovals(1, 0);
+      expect(approvals.approvals).to.equal(2);
+      expect(approvals.required).to.equal(2);
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(1);
+    });
+
+    it("Should let a verifier revoke a pending approval", async function () {
+      await projectEscrow.grantRole(await projectEscrow.VERIFIER_ROLE(), verifier1.address);
+      await projectEscrow.setDefaultQuorum(2);
+
+      await projectEscrow.connect(verifier1).verifyMilestone(1, 0);
+      await expect(projectEscrow.connect(verifier1).revokeMilestoneApproval(1, 0))
+        .to.emit(projectEscrow, "MilestoneApprovalRevoked")
+        .withArgs(1, 0, verifier1.address, 0, 2);
+
+      expect((await projectEscrow.getMilestoneApprovals(1, 0)).approvals).to.equal(0);
+      await expect(
+        projectEscrow.connect(verifier1).revokeMilestoneApproval(1, 0)
+      ).to.be.revertedWith("Milestone not approved by caller");
+    });
+
+    it("Should reject duplicate approvals", async function () {
+      await projectEscrow.grantRole(await projectEscrow.VERIFIER_ROLE(), verifier1.address);
+      await projectEscrow.setDefaultQuorum(2);
+
+      await projectEscrow.connect(verifier1).verifyMilestone(1, 0);
+      await expect(
+        projectEscrow.connect(verifier1).verifyMilestone(1, 0)
+      ).to.be.revertedWith("Milestone already approved");
+    });
+
+    it("Should support project-specific verifiers and quorum", async function () {
+      await expect(projectEscrow.setProjectVerifier(1, verifier1.address, true))
+        .to.emit(projectEscrow, "VerifierUpdated")
+        .withArgs(1, verifier1.address, true);
+      await projectEscrow.setProjectQuorum(1, 2);
+
+      expect(await projectEscrow.isVerifier(1, verifier1.address)).to.be.true;
+      expect(await projectEscrow.isVerifier(2, verifier1.address)).to.be.false;
+
+      await projectEscrow.connect(verifier1).verifyMilestone(1, 0);
+      await projectEscrow.verifyMilestone(1, 0);
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(1);
+    });
+
+    it("Should reject a quorum larger than the verifier set", async function () {
+      await expect(
+        projectEscrow.setDefaultQuorum(2)
+      ).to.be.revertedWith("Quorum exceeds verifier count");
+    });
+
+    it("Should block revoking a verifier the default quorum still needs", async function () {
+      const verifierRole = await projectEscrow.VERIFIER_ROLE();
+      await projectEscrow.grantRole(verifierRole, verifier1.address);
+      await projectEscrow.setDefaultQuorum(2);
+
+      await expect(
+        projectEscrow.revokeRole(verifierRole, verifier1.address)
+      ).to.be.revertedWith("Revoke would leave fewer verifiers than the quorum");
+      await expect(
+        projectEscrow.connect(verifier1).renounceRole(verifierRole, verifier1.address)
+      ).to.be.revertedWith("Revoke would leave fewer verifiers than the quorum");
+
+      await projectEscrow.grantRole(verifierRole, verifier2.address);
+      await projectEscrow.revokeRole(verifierRole, verifier1.address);
+      expect(await projectEscrow.globalVerifierCount()).to.equal(2);
+    });
+
+    it("Should cap a project quorum at the verifiers left", async function () {
+      await projectEscrow.setProjectVerifier(1, verifier1.address, true);
+      await projectEscrow.setProjectQuorum(1, 2);
+      expect(await projectEscrow.getQuorum(1)).to.equal(2);
+
+      await projectEscrow.setProjectVerifier(1, verifier1.address, false);
+      expect(await projectEscrow.getQuorum(1)).to.equal(1);
+
+      await projectEscrow.verifyMilestone(1, 0);
+      expect((await projectEscrow.getMilestone(1, 0)).state).to.equal(1);
+    });
+
+    it("Should stop counting approvals from revoked verifiers", async function () {
+      const verifierRole = await projectEscrow.VERIFIER_ROLE();
+      await projectEscrow.grantRole(verifierRole, verifier1.address);
+      await projectEscrow.grantRole(verifierRole, verifier2.address);
+      await projectEscrow.setDefaultQuorum(2);
+
+      await projectEscrow.connect(verifier1).verifyMilestone(1, 0);
+      await projectEscrow.revokeRole(verifierRole, verifier1.address);
+      expect((await projectEscrow.getMilestoneApprovals(1, 0)).approvals).to.equal(0);
+
+      await expect(projectEscrow.verifyMilestone(1, 0))
+        .to.emit(projectEscrow, "MilestoneApproved")
+        .withArgs(1, 0, owner.address, 1, 2)
+        .and.not.to.emit(projectEscrow, "MilestoneVerified");
+
+      await expect(projectEscrow.connect(verifier2).verifyMilestone(1, 0))
+        .to.emit(projectEscrow, "MilestoneVerified");
+    });
+  });
+
+  describe("Milestone Evidence", function () {
+    const evidenceUri = "ipfs://bafy-evidence";
+    const contentHash = ethers.id("well-photos.zip");
+
+    beforeEach(async function () {
+      await projectEscrow.createProject(
+        ngo.address,
+        [ethers.parseEther("1"), ethers.parseEther("2")],
+        ["First milestone", "Second milestone"],
+        "Test Project",
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
+      );
+      await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("3") });
+    });
+
+    it("Should let the NGO submit evidence for a milestone", async function () {
+      await expect(
+        projectEscrow.connect(ngo).submitMilestoneEvidence(1, 0, evidenceUri, contentHash)
+      ).to.emit(projectEscrow, "MilestoneEvidenceSubmitted")
+        .withArgs(1, 0, contentHash, evidenceUri);
+
+      const milestone = await projectEscrow.getMilestone(1, 0);
+      expect(milestone.evidence.length).to.equal(1);
+      expect(milestone.evidence[0].uri).to.equal(evidenceUri);
+      expect(milestone.evidence[0].contentHash).to.equal(contentHash);
+    });
+
+    it("Should reject evidence from anyone but the NGO", async function () {
+      await expect(
+        projectEscrow.connect(donor).submitMilestoneEvidence(1, 0, evidenceUri, contentHash)
+      ).to.be.revertedWith("Only project creator can submit evidence");
+    });
+
+    it("Should record approvals and rejections with reasons", async function () {
+      const [, , , , verifier1] = await ethers.getSigners();
+      await projectEscrow.grantRole(await projectEscrow.VERIFIER_ROLE(), verifier1.address);
+      await projectEscrow.setDefaultQuorum(2);
+      await projectEscrow.connect(ngo).submitMilestoneEvidence(1, 0, evidenceUri, contentHash);
+
+      await expect(projectEscrow.approveMilestone(1, 0, "Photos match the site survey"))
+        .to.emit(projectEscrow, "MilestoneReviewed")
+        .withArgs(1, 0, owner.address, true, "Photos match the site survey");
+      await expect(projectEscrow.connect(verifier1).rejectMilestone(1, 0, "Invoices missing"))
+        .to.emit(projectEscrow, "MilestoneReviewed")
+        .withArgs(1, 0, verifier1.address, false, "Invoices missing");
+
+      const milestone = await projectEscrow.getMilestone(1, 0);
+      expect(milestone.state).to.equal(3); // MilestoneState.Rejected
+      expect(milestone.reviews.length).to.equal(2);
+      expect(milestone.reviews[0].verifier).to.equal(owner.address);
+      expect(milestone.reviews[0].approved).to.be.true;
+      expect(milestone.reviews[1].approved).to.be.false;
+      expect(milestone.reviews[1].reason).to.equal("Invoices missing");
+    });
+
+    it("Should discard approvals when a milestone is rejected", async function () {
+      const [, , , , verifier1] = await ethers.getSigners();
+      await projectEscrow.grantRole(await projectEscrow.VERIFIER_ROLE(), verifier1.address);
+      await projectEscrow.setDefaultQuorum(2);
+
+      await projectEscrow.approveMilestone(1, 0, "Looks good");
+      await expect(projectEscrow.rejectMilestone(1, 0, "Found a discrepancy"))
+        .to.emit(projectEscrow, "MilestoneRejected")
+        .withArgs(1, 0, owner.address, "Found a discrepancy");
+
+      expect((await projectEscrow.getMilestoneApprovals(1, 0)).approvals).to.equal(0);
+      expect(await projectEscrow.hasApproved(1, 0, owner.address)).to.be.false;
+    });
+
+    it("Should require a reason to reject", async function () {
+      await expect(
+        projectEscrow.rejectMilestone(1, 0, "")
+      ).to.be.revertedWith("Rejection reason required");
+    });
+  });
+
   describe("Project Completion", function () {
     beforeEach(async function () {
       // Create, fund, verify, and pay all milestones
@@ -168,7 +1067,10 @@ describe("ImpactChain System", function () {
         milestoneAmounts,
         milestoneDescriptions,
         "Test Project",
-        "Description"
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        IMPACT_METRICS
       );
       
       await projectEscrow.connect(donor).donate(1, { value: ethers.parseEther("3") });
@@ -181,11 +1083,11 @@ describe("ImpactChain System", function () {
     });
 
     it("Should complete project and mint ImpactToken", async function () {
-      const impactValue = 1000;
       const imageUri = "https://example.com/impact-image.jpg";
+      await projectEscrow.connect(ngo).reportImpact(1, [120]);
       
       await expect(
-        projectEscrow.completeProject(1, impactValue, imageUri)
+        projectEscrow.completeProject(1, imageUri)
       ).to.emit(projectEscrow, "ProjectCompleted")
         .withArgs(1)
         .and.to.emit(projectEscrow, "ImpactTokenAwarded");
@@ -197,5 +1099,212 @@ describe("ImpactChain System", function () {
       const totalSupply = await impactToken.totalSupply();
       expect(totalSupply).to.equal(1);
     });
+
+    it("Should store the structured impact results on the token", async function () {
+      await projectEscrow.connect(ngo).reportImpact(1, [120]);
+      await projectEscrow.completeProject(1, "");
+
+      const metadata = await impactToken.getTokenMetadata(1);
+      expect(metadata.results.length).to.equal(1);
+      expect(metadata.results[0].name).to.equal("Households served");
+      expect(metadata.results[0].unit).to.equal("households");
+      expect(metadata.results[0].target).to.equal(100);
+      expect(metadata.results[0].actual).to.equal(120);
+    });
+
+    it("Should require impact to be reported before completion", async function () {
+      await expect(
+        projectEscrow.completeProject(1, "")
+      ).to.be.revertedWith("Impact has not been reported");
+    });
+  });
+
+  describe("Impact Metrics", function () {
+    const metrics = [
+      { name: "Trees planted", unit: "trees", target: 500 },
+      { name: "Area restored", unit: "hectares", target: 20 },
+    ];
+
+    beforeEach(async function () {
+      await projectEscrow.createProject(
+        ngo.address,
+        [ethers.parseEther("1")],
+        ["Only milestone"],
+        "Reforestation",
+        "Description",
+        fundingDeadline,
+        ethers.ZeroAddress,
+        metrics
+      );
+    });
+
+    it("Should store the metrics declared at creation", async function () {
+      const [declared, actualValues] = await projectEscrow.getImpactMetrics(1);
+      expect(declared.map((m) => [m.name, m.unit, m.target])).to.deep.equal([
+        ["Trees planted", "trees", 500n],
+        ["Area restored", "hectares", 20n],
+      ]);
+      expect(actualValues).to.deep.equal([]);
+    });
+
+    it("Should require at least one named metric", async function () {
+      await expect(
+        projectEscrow.createProject(
+          ngo.address, [ethers.parseEther("1")], ["Build well"],
+          "Clean Water", "Description", fundingDeadline, ethers.ZeroAddress, []
+        )
+      ).to.be.revertedWith("Project must declare at least one impact metric");
+      await expect(
+        projectEscrow.createProject(
+          ngo.address, [ethers.parseEther("1")], ["Build well"],
+          "Clean Water", "Description", fundingDeadline, ethers.ZeroAddress,
+          [{ name: "", unit: "wells", target: 1 }]
+        )
+      ).to.be.revertedWith("Impact metric name is required");
+    });
+
+    it("Should let the NGO report one value per metric", async function () {
+      await expect(projectEscrow.connect(ngo).reportImpact(1, [480, 22]))
+        .to.emit(projectEscrow, "ImpactReported")
+        .withArgs(1, [480, 22]);
+
+      const [, actualValues] = await projectEscrow.getImpactMetrics(1);
+      expect(actualValues).to.deep.equal([480n, 22n]);
+    });
+
+    it("Should reject reports from others or with the wrong shape", async function () {
+      await expect(
+        projectEscrow.connect(donor).reportImpact(1, [480, 22])
+      ).to.be.revertedWith("Only project creator can report impact");
+      await expect(
+        projectEscrow.connect(ngo).reportImpact(1, [480])
+      ).to.be.revertedWith("Impact metric count mismatch");
+    });
+  });
+
+  describe("Impact Token Metadata", function () {
+    let token;
+
+    const WELL_RESULTS = [
+      { name: "Wells built", unit: "wells", target: 4, actual: 3 },
+      { name: "People served", unit: "people", target: 1000, actual: 1500 },
+    ];
+
+    // Strip the data URI prefix and base64-decode the payload
+    const decodeDataUri = (uri, mimeType) => {
+      const prefix = `data:${mimeType};base64,`;
+      expect(uri.startsWith(prefix)).to.be.true;
+      return Buffer.from(uri.slice(prefix.length), "base64").toString("utf8");
+    };
+
+    beforeEach(async function () {
+      // A standalone token owned by the test account so it can mint directly
+      token = await (await ethers.getContractFactory("ImpactToken")).deploy();
+      await token.waitForDeployment();
+    });
+
+    it("Should return base64 JSON metadata with attributes", async function () {
+      await token.mintImpactToken(
+        donor.address, 7, "Clean Water", "Built 3 wells", WELL_RESULTS, "ipfs://impact-image"
+      );
+      const mintedAt = await time.latest();
+
+      const metadata = JSON.parse(decodeDataUri(await token.tokenURI(1), "application/json"));
+      expect(metadata.name).to.equal("Clean Water Impact #1");
+      expect(metadata.description).to.equal("Built 3 wells");
+      expect(metadata.image).to.equal("ipfs://impact-image");
+
+      const traits = Object.fromEntries(metadata.attributes.map((a) => [a.trait_type, a.value]));
+      expect(traits["Project ID"]).to.equal(7);
+      expect(traits["Wells built (wells)"]).to.equal(3);
+      expect(traits["People served (people)"]).to.equal(1500);
+      expect(traits["Timestamp"]).to.equal(mintedAt);
+      expect(traits["Recipient"]).to.equal(donor.address.toLowerCase());
+      expect(metadata.attributes.find((a) => a.trait_type === "Timestamp").display_type).to.equal("date");
+      expect(metadata.impact_results).to.deep.equal([
+        { name: "Wells built", unit: "wells", target: 4, actual: 3 },
+        { name: "People served", unit: "people", target: 1000, actual: 1500 },
+      ]);
+    });
+
+    it("Should fall back to an on-chain SVG when no image URI is given", async function () {
+      await token.mintImpactToken(donor.address, 7, "Clean Water", "Built 3 wells", WELL_RESULTS, "");
+
+      const metadata = JSON.parse(decodeDataUri(await token.tokenURI(1), "application/json"));
+      const svg = decodeDataUri(metadata.image, "image/svg+xml");
+      expect(svg.startsWith("<svg")).to.be.true;
+      expect(svg).to.contain("Project #7");
+      expect(svg).to.contain("2 impact metrics");
+      expect(svg.endsWith("</svg>")).to.be.true;
+    });
+
+    it("Should escape user-supplied strings in the JSON", async function () {
+      await token.mintImpactToken(
+        donor.address, 1, 'The "Well" Project', "Line one\nLine two \\ done",
+        [{ name: 'Water "quality"', unit: "ppm", target: 5, actual: 4 }], ""
+      );
+
+      const metadata = JSON.parse(decodeDataUri(await token.tokenURI(1), "application/json"));
+      expect(metadata.name).to.equal('The "Well" Project Impact #1');
+      expect(metadata.description).to.equal("Line one\nLine two \\ done");
+      expect(metadata.impact_results[0].name).to.equal('Water "quality"');
+    });
+
+    it("Should revert for tokens that do not exist", async function () {
+      await expect(token.tokenURI(1)).to.be.revertedWithCustomError(token, "ERC721NonexistentToken");
+    });
+  });
+
+  describe("Impact Token Enumeration", function () {
+    let token;
+
+    const mint = (to) => token.mintImpactToken(to, 1, "Clean Water", "", [], "");
+
+    beforeEach(async function () {
+      token = await (await ethers.getContractFactory("ImpactToken")).deploy();
+      await token.waitForDeployment();
+    });
+
+    it("Should index tokens by owner and follow transfers", async function () {
+      await mint(donor.address);
+      await mint(donor2.address);
+      await mint(donor.address);
+
+      expect(await token.totalSupply()).to.equal(3);
+      expect(await token.tokenOfOwnerByIndex(donor.address, 1)).to.equal(3);
+      expect(await token.getTokensByOwner(donor.address)).to.deep.equal([1n, 3n]);
+
+      await token.connect(donor).transferFrom(donor.address, donor2.address, 1);
+      expect(await token.getTokensByOwner(donor.address)).to.deep.equal([3n]);
+      expect(await token.getTokensByOwner(donor2.address)).to.deep.equal([2n, 1n]);
+    });
+
+    it("Should page through owner and collection tokens", async function () {
+      for (let i = 0; i < 5; i++) {
+        await mint(donor.address);
+      }
+
+      expect(await token.getTokensByOwnerPage(donor.address, 1, 2)).to.deep.equal([2n, 3n]);
+      expect(await token.getTokensByOwnerPage(donor.address, 4, 10)).to.deep.equal([5n]);
+      expect(await token.getTokensByOwnerPage(donor.address, 5, 10)).to.deep.equal([]);
+      expect(await token.getTokensPage(3, 10)).to.deep.equal([4n, 5n]);
+    });
+
+    it("Should keep owner lookups flat as total supply grows", async function () {
+      this.timeout(10 * 60 * 1000);
+
+      await mint(donor.address);
+      await mint(donor.address);
+      const gasAtSmallSupply = await token.getTokensByOwner.estimateGas(donor.address);
+
+      const FILLER_TOKENS = 3000;
+      for (let i = 0; i < FILLER_TOKENS; i++) {
+        await mint(donor2.address);
+      }
+      expect(await token.totalSupply()).to.equal(FILLER_TOKENS + 2);
+
+      const gasAtLargeSupply = await token.getTokensByOwner.estimateGas(donor.address);
+      expect(gasAtLargeSupply).to.equal(gasAtSmallSupply);
+    });
   });
-});
\ No newline at end of file
+});